@@ -0,0 +1,158 @@
+#!/usr/bin/env bun
+/**
+ * Compare row and statement change capture on insert-heavy workloads.
+ *
+ * Each mode gets a fresh in-memory PGlite with change tracking installed, then
+ * times inserting the same rows as one bulk statement and as the batched
+ * multi-row INSERTs a restore turns COPY into. A run without tracking is the
+ * baseline.
+ *
+ * Usage:
+ *   bun scripts/bench-change-capture.ts
+ *   bun scripts/bench-change-capture.ts --rows 100000 --batch 200 --payload 64
+ */
+
+import { PGlite } from '@electric-sql/pglite'
+
+import { installChangeTracking } from '../src/replication/change-tracker'
+
+import type { ChangeCapture } from '../src/config'
+
+function arg(name: string): string | undefined {
+  const idx = process.argv.indexOf(name)
+  if (idx === -1 || idx + 1 >= process.argv.length) return undefined
+  return process.argv[idx + 1]
+}
+
+function intArg(name: string, fallback: number): number {
+  const raw = arg(name)
+  if (!raw) return fallback
+  const n = Number(raw)
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback
+}
+
+type Mode = ChangeCapture | 'none'
+
+interface Result {
+  mode: Mode
+  workload: string
+  ms: number
+  changes: number
+}
+
+async function setup(mode: Mode): Promise<PGlite> {
+  const db = new PGlite()
+  await db.waitReady
+  await db.exec(`
+    CREATE TABLE public.items (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      payload TEXT,
+      created_at TIMESTAMPTZ DEFAULT now()
+    )
+  `)
+  if (mode !== 'none') await installChangeTracking(db, mode)
+  return db
+}
+
+async function countChanges(db: PGlite, mode: Mode): Promise<number> {
+  if (mode === 'none') return 0
+  const result = await db.query<{ count: number }>(
+    'SELECT count(*)::int AS count FROM _orez._zero_changes'
+  )
+  return result.rows[0].count
+}
+
+async function time(fn: () => Promise<void>): Promise<number> {
+  const start = performance.now()
+  await fn()
+  return performance.now() - start
+}
+
+async function bulk(mode: Mode, rows: number, payload: number): Promise<Result> {
+  const db = await setup(mode)
+  try {
+    const ms = await time(() =>
+      db
+        .exec(
+          `INSERT INTO public.items (id, name, payload)
+           SELECT g, 'item ' || g, repeat('x', ${payload}) FROM generate_series(1, ${rows}) g`
+        )
+        .then(() => {})
+    )
+    return { mode, workload: 'bulk insert', ms, changes: await countChanges(db, mode) }
+  } finally {
+    await db.close()
+  }
+}
+
+async function batched(
+  mode: Mode,
+  rows: number,
+  batch: number,
+  payload: number
+): Promise<Result> {
+  const db = await setup(mode)
+  const value = 'x'.repeat(payload)
+  try {
+    const ms = await time(async () => {
+      for (let start = 1; start <= rows; start += batch) {
+        const values: string[] = []
+        for (let id = start; id < Math.min(start + batch, rows + 1); id++) {
+          values.push(`(${id}, 'item ${id}', '${value}')`)
+        }
+        await db.exec(
+          `INSERT INTO public.items (id, name, payload) VALUES ${values.join(', ')}`
+        )
+      }
+    })
+    return {
+      mode,
+      workload: `batches of ${batch}`,
+      ms,
+      changes: await countChanges(db, mode),
+    }
+  } finally {
+    await db.close()
+  }
+}
+
+async function main() {
+  const rows = intArg('--rows', 50_000)
+  const batch = intArg('--batch', 200)
+  const payload = intArg('--payload', 64)
+  const modes: Mode[] = ['none', 'row', 'statement']
+
+  console.log(`inserting ${rows} rows (${payload} byte payload)\n`)
+  const results: Result[] = []
+  for (const mode of modes) {
+    results.push(await bulk(mode, rows, payload))
+    results.push(await batched(mode, rows, batch, payload))
+  }
+
+  const baseline = new Map(
+    results.filter((r) => r.mode === 'none').map((r) => [r.workload, r.ms])
+  )
+  console.log('mode       workload           ms        rows/s    overhead  changes')
+  for (const r of results) {
+    const base = baseline.get(r.workload) ?? r.ms
+    const overhead = r.mode === 'none' ? '-' : `${(r.ms / base).toFixed(2)}x`
+    console.log(
+      [
+        r.mode.padEnd(10),
+        r.workload.padEnd(18),
+        r.ms.toFixed(0).padStart(6),
+        Math.round((rows / r.ms) * 1000)
+          .toString()
+          .padStart(12),
+        overhead.padStart(9),
+        r.changes.toString().padStart(8),
+      ].join(' ')
+    )
+  }
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -6,6 +6,8 @@ import {
   type ServerResponse,
 } from 'node:http'
 
+import { DEFAULT_HOST, guardServer } from '../network.js'
+
 import type { Socket } from 'node:net'
 
 export interface HttpLogEntry {
@@ -83,9 +85,11 @@ function flatHeaders(headers: Record<string, any>): Record<string, string> {
 export function startHttpProxy(opts: {
   listenPort: number
   targetPort: number
+  host?: string
+  allowedIps?: string[]
   httpLog: HttpLogStore
 }): Promise<Server> {
-  const { listenPort, targetPort, httpLog } = opts
+  const { listenPort, targetPort, httpLog, host = DEFAULT_HOST } = opts
 
   const server = createServer((req: IncomingMessage, res: ServerResponse) => {
     const start = Date.now()
@@ -184,7 +188,8 @@ export function startHttpProxy(opts: {
   })
 
   return new Promise((resolve, reject) => {
-    server.listen(listenPort, '127.0.0.1', () => resolve(server))
+    guardServer(server, opts.allowedIps)
+    server.listen(listenPort, host, () => resolve(server))
     server.on('error', reject)
   })
 }
@@ -6,9 +6,16 @@ import {
 } from 'node:http'
 
 import { log } from '../log.js'
+import { guardServer } from '../network.js'
 import { getAdminHtml } from './ui.js'
 
+import type { AdvisoryLockInfo } from '../advisory-locks.js'
 import type { ZeroLiteConfig } from '../config.js'
+import type {
+  ReplicationStatus,
+  WaitForReplicationOptions,
+} from '../replication/handler.js'
+import type { RowHistoryEntry, RowKey } from '../replication/row-history.js'
 import type { HttpLogStore } from './http-proxy.js'
 import type { LogStore } from './log-store.js'
 
@@ -17,6 +24,7 @@ export interface AdminActions {
   stopZero?: () => Promise<void>
   resetZero?: () => Promise<void>
   resetZeroFull?: () => Promise<void>
+  waitForReplication?: (options?: WaitForReplicationOptions) => Promise<void>
 }
 
 export interface AdminServerOpts {
@@ -27,6 +35,10 @@ export interface AdminServerOpts {
   actions?: AdminActions
   startTime: number
   httpLog?: HttpLogStore
+  advisoryLocks?: () => AdvisoryLockInfo[]
+  databases?: () => string[]
+  replication?: () => ReplicationStatus
+  rowHistory?: (table: string, key: RowKey) => Promise<RowHistoryEntry[]>
 }
 
 function corsHeaders(): Record<string, string> {
@@ -95,6 +107,8 @@ export function startAdminServer(opts: AdminServerOpts): Promise<Server> {
           logLevel: config.logLevel,
           skipZeroCache: config.skipZeroCache,
           sqliteMode: config.disableWasmSqlite ? 'native' : 'wasm',
+          databases: opts.databases?.() ?? [],
+          replication: opts.replication?.() ?? null,
         })
         return
       }
@@ -143,6 +157,28 @@ export function startAdminServer(opts: AdminServerOpts): Promise<Server> {
         return
       }
 
+      // for test runners outside node: resolves once writes reached zero-cache
+      if (req.method === 'POST' && url.pathname === '/api/actions/wait-for-replication') {
+        if (!actions?.waitForReplication) {
+          json(res, { ok: false, message: 'replication not available' }, 400)
+          return
+        }
+        const timeoutStr = url.searchParams.get('timeout')
+        const timeout = timeoutStr ? Number(timeoutStr) : undefined
+        if (timeout !== undefined && !(timeout > 0)) {
+          json(res, { ok: false, message: 'timeout must be in milliseconds' }, 400)
+          return
+        }
+        try {
+          await actions.waitForReplication({ timeout })
+        } catch (err: any) {
+          json(res, { ok: false, message: err?.message ?? String(err) }, 408)
+          return
+        }
+        json(res, { ok: true, message: 'replication caught up' })
+        return
+      }
+
       if (req.method === 'POST' && url.pathname === '/api/actions/clear-logs') {
         logStore.clear()
         json(res, { ok: true, message: 'logs cleared' })
@@ -157,6 +193,44 @@ export function startAdminServer(opts: AdminServerOpts): Promise<Server> {
         return
       }
 
+      if (req.method === 'GET' && url.pathname === '/api/locks') {
+        json(res, { locks: opts.advisoryLocks?.() || [] })
+        return
+      }
+
+      // ?table=todo&key={"id":1}
+      if (req.method === 'GET' && url.pathname === '/api/row-history') {
+        if (!opts.rowHistory) {
+          json(res, { error: 'row history not available' }, 400)
+          return
+        }
+        const table = url.searchParams.get('table')
+        let key: unknown
+        try {
+          key = JSON.parse(url.searchParams.get('key') || '')
+        } catch {}
+        if (
+          !table ||
+          !key ||
+          typeof key !== 'object' ||
+          Array.isArray(key) ||
+          Object.keys(key).length === 0
+        ) {
+          json(
+            res,
+            { error: 'expected table and a key object of primary key columns' },
+            400
+          )
+          return
+        }
+        json(res, {
+          // without it, consumed changes are purged and the history is short
+          changeHistory: config.changeHistory,
+          entries: await opts.rowHistory(table, key as RowKey),
+        })
+        return
+      }
+
       if (req.method === 'POST' && url.pathname === '/api/actions/clear-http') {
         opts.httpLog?.clear()
         json(res, { ok: true, message: 'http log cleared' })
@@ -171,7 +245,8 @@ export function startAdminServer(opts: AdminServerOpts): Promise<Server> {
   })
 
   return new Promise((resolve, reject) => {
-    server.listen(opts.port, '127.0.0.1', () => {
+    guardServer(server, config.allowedIps)
+    server.listen(opts.port, config.host, () => {
       resolve(server)
     })
     server.on('error', reject)
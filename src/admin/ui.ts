@@ -291,6 +291,14 @@ export function getAdminHtml(): string {
     '}\n' +
     '.http-detail .hdr-key { color: var(--accent); }\n' +
     '.http-detail .hdr-val { color: var(--text-dim); }\n' +
+    // locks view
+    '.http-table .lock-state.held { color: var(--green); }\n' +
+    '.http-table .lock-state.waiting { color: var(--yellow); }\n' +
+    '.locks-empty { padding: 16px; font-size: 12px; color: var(--text-dim); }\n' +
+    // history view
+    '.http-table .diff-col { color: var(--text-dim); }\n' +
+    '.http-table .diff-before { color: var(--red); text-decoration: line-through; }\n' +
+    '.http-table .diff-line { white-space: pre-wrap; word-break: break-all; }\n' +
     // actions panel
     '.actions-panel {\n' +
     '  flex-shrink: 0;\n' +
@@ -341,6 +349,8 @@ export function getAdminHtml(): string {
     '    <div class="spacer"></div>\n' +
     '    <span class="badge"><span class="dot"></span> pg <span id="pg-port">-</span></span>\n' +
     '    <span class="badge"><span class="dot"></span> zero <span id="zero-port">-</span></span>\n' +
+    '    <span class="badge" id="db-badge">dbs: --</span>\n' +
+    '    <span class="badge" id="backlog-badge">backlog: --</span>\n' +
     '    <span class="badge" id="sqlite-badge">sqlite: --</span>\n' +
     '    <span class="badge" id="uptime-badge">&#9201; --</span>\n' +
     '  </div>\n' +
@@ -353,6 +363,8 @@ export function getAdminHtml(): string {
     '    <button class="tab" data-source="orez">Orez</button>\n' +
     '    <button class="tab" data-source="s3">S3</button>\n' +
     '    <button class="tab" data-source="http">HTTP</button>\n' +
+    '    <button class="tab" data-source="locks">Locks</button>\n' +
+    '    <button class="tab" data-source="history">History</button>\n' +
     '    <button class="tab" data-source="env">Env</button>\n' +
     '  </div>\n' +
     '\n' +
@@ -372,6 +384,14 @@ export function getAdminHtml(): string {
     '    <input type="text" id="http-path-filter" placeholder="filter by path...">\n' +
     '  </div>\n' +
     '\n' +
+    '  <div class="toolbar" id="history-toolbar" style="display:none">\n' +
+    '    <label>Table</label>\n' +
+    '    <input type="text" id="history-table" placeholder="todo or schema.table">\n' +
+    '    <label>Key</label>\n' +
+    '    <input type="text" id="history-key" placeholder="id=1">\n' +
+    '    <button class="action-btn blue" onclick="fetchHistory()">Show</button>\n' +
+    '  </div>\n' +
+    '\n' +
     '  <div class="content-area">\n' +
     '    <div class="log-wrap">\n' +
     '      <div class="log-view" id="log-view"></div>\n' +
@@ -394,6 +414,34 @@ export function getAdminHtml(): string {
     '          <tbody id="http-body"></tbody>\n' +
     '        </table>\n' +
     '      </div>\n' +
+    '      <div class="http-view" id="locks-view">\n' +
+    '        <table class="http-table">\n' +
+    '          <thead><tr>\n' +
+    '            <th>PID</th>\n' +
+    '            <th>Database</th>\n' +
+    '            <th>Key</th>\n' +
+    '            <th>Mode</th>\n' +
+    '            <th>Scope</th>\n' +
+    '            <th>Count</th>\n' +
+    '            <th>State</th>\n' +
+    '          </tr></thead>\n' +
+    '          <tbody id="locks-body"></tbody>\n' +
+    '        </table>\n' +
+    '        <div class="locks-empty" id="locks-empty">no advisory locks held</div>\n' +
+    '      </div>\n' +
+    '      <div class="http-view" id="history-view">\n' +
+    '        <table class="http-table">\n' +
+    '          <thead><tr>\n' +
+    '            <th>Watermark</th>\n' +
+    '            <th>Time</th>\n' +
+    '            <th>Op</th>\n' +
+    '            <th>Writer</th>\n' +
+    '            <th>Changes</th>\n' +
+    '          </tr></thead>\n' +
+    '          <tbody id="history-body"></tbody>\n' +
+    '        </table>\n' +
+    '        <div class="locks-empty" id="history-empty">enter a table and the primary key of a row</div>\n' +
+    '      </div>\n' +
     '      <button class="jump-btn" id="jump-btn" onclick="jumpToBottom()">&#x2193; Jump to bottom</button>\n' +
     '    </div>\n' +
     '\n' +
@@ -422,16 +470,21 @@ export function getAdminHtml(): string {
     'var envLoaded = false;\n' +
     'var isEnvTab = false;\n' +
     'var isHttpTab = false;\n' +
+    'var isLocksTab = false;\n' +
+    'var isHistoryTab = false;\n' +
     'var httpCursor = 0;\n' +
     'var httpAutoScroll = true;\n' +
     '\n' +
     'var logView = document.getElementById("log-view");\n' +
     'var envView = document.getElementById("env-view");\n' +
     'var httpView = document.getElementById("http-view");\n' +
+    'var locksView = document.getElementById("locks-view");\n' +
+    'var historyView = document.getElementById("history-view");\n' +
     'var jumpBtn = document.getElementById("jump-btn");\n' +
     'var toastEl = document.getElementById("toast");\n' +
     'var toolbar = document.getElementById("toolbar");\n' +
     'var httpToolbar = document.getElementById("http-toolbar");\n' +
+    'var historyToolbar = document.getElementById("history-toolbar");\n' +
     '\n' +
     'document.getElementById("tab-bar").addEventListener("click", function(e) {\n' +
     '  var tab = e.target.closest(".tab");\n' +
@@ -441,11 +494,16 @@ export function getAdminHtml(): string {
     '  var source = tab.dataset.source;\n' +
     '  isEnvTab = source === "env";\n' +
     '  isHttpTab = source === "http";\n' +
+    '  isLocksTab = source === "locks";\n' +
+    '  isHistoryTab = source === "history";\n' +
     '  logView.style.display = "none";\n' +
     '  envView.style.display = "none";\n' +
     '  httpView.style.display = "none";\n' +
+    '  locksView.style.display = "none";\n' +
+    '  historyView.style.display = "none";\n' +
     '  toolbar.style.display = "none";\n' +
     '  httpToolbar.style.display = "none";\n' +
+    '  historyToolbar.style.display = "none";\n' +
     '  if (isEnvTab) {\n' +
     '    envView.style.display = "block";\n' +
     '    if (!envLoaded) loadEnv();\n' +
@@ -455,6 +513,12 @@ export function getAdminHtml(): string {
     '    httpCursor = 0;\n' +
     '    document.getElementById("http-body").innerHTML = "";\n' +
     '    fetchHttp();\n' +
+    '  } else if (isLocksTab) {\n' +
+    '    locksView.style.display = "block";\n' +
+    '    fetchLocks();\n' +
+    '  } else if (isHistoryTab) {\n' +
+    '    historyView.style.display = "block";\n' +
+    '    historyToolbar.style.display = "flex";\n' +
     '  } else {\n' +
     '    logView.style.display = "block";\n' +
     '    toolbar.style.display = "flex";\n' +
@@ -617,6 +681,84 @@ export function getAdminHtml(): string {
     '  }).catch(function() {});\n' +
     '}\n' +
     '\n' +
+    'function fetchLocks() {\n' +
+    '  fetch("/api/locks").then(function(res) { return res.json(); }).then(function(data) {\n' +
+    '    var tbody = document.getElementById("locks-body");\n' +
+    '    var locks = data.locks || [];\n' +
+    '    tbody.innerHTML = "";\n' +
+    '    for (var i = 0; i < locks.length; i++) {\n' +
+    '      var l = locks[i];\n' +
+    '      var state = l.granted ? "held" : "waiting";\n' +
+    '      var tr = document.createElement("tr");\n' +
+    '      tr.innerHTML = "<td>" + l.pid + "</td>"\n' +
+    '        + "<td>" + escHtml(l.database) + "</td>"\n' +
+    '        + \'<td class="path">\' + escHtml(l.key) + "</td>"\n' +
+    '        + "<td>" + l.mode + "</td>"\n' +
+    '        + "<td>" + l.scope + "</td>"\n' +
+    '        + \'<td class="dur">\' + (l.granted ? l.count : "-") + "</td>"\n' +
+    '        + \'<td><span class="lock-state \' + state + \'">\' + state + "</span></td>";\n' +
+    '      tbody.appendChild(tr);\n' +
+    '    }\n' +
+    '    document.getElementById("locks-empty").style.display = locks.length ? "none" : "block";\n' +
+    '  }).catch(function() {});\n' +
+    '}\n' +
+    '\n' +
+    '// "id=1, org=2" or a json object, into the key the api expects\n' +
+    'function parseHistoryKey(text) {\n' +
+    '  text = text.trim();\n' +
+    '  if (text.charAt(0) === "{") return text;\n' +
+    '  var key = {};\n' +
+    '  text.split(",").forEach(function(pair) {\n' +
+    '    var eq = pair.indexOf("=");\n' +
+    '    if (eq > 0) key[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();\n' +
+    '  });\n' +
+    '  return JSON.stringify(key);\n' +
+    '}\n' +
+    '\n' +
+    'function fmtValue(v) {\n' +
+    '  return escHtml(v === undefined ? "" : JSON.stringify(v));\n' +
+    '}\n' +
+    '\n' +
+    'function fetchHistory() {\n' +
+    '  var params = new URLSearchParams();\n' +
+    '  params.set("table", document.getElementById("history-table").value.trim());\n' +
+    '  params.set("key", parseHistoryKey(document.getElementById("history-key").value));\n' +
+    '  var tbody = document.getElementById("history-body");\n' +
+    '  var empty = document.getElementById("history-empty");\n' +
+    '  fetch("/api/row-history?" + params).then(function(res) { return res.json(); }).then(function(data) {\n' +
+    '    tbody.innerHTML = "";\n' +
+    '    var entries = data.entries || [];\n' +
+    '    for (var i = 0; i < entries.length; i++) {\n' +
+    '      var e = entries[i];\n' +
+    '      var writer = e.applicationName || "";\n' +
+    '      if (e.connectionId != null) writer += (writer ? " " : "") + "#" + e.connectionId;\n' +
+    '      var lines = Object.keys(e.diff).map(function(col) {\n' +
+    '        var d = e.diff[col];\n' +
+    '        return \'<div class="diff-line"><span class="diff-col">\' + escHtml(col) + ":</span> "\n' +
+    '          + ("before" in d ? \'<span class="diff-before">\' + fmtValue(d.before) + "</span> " : "")\n' +
+    '          + ("after" in d ? fmtValue(d.after) : "") + "</div>";\n' +
+    '      });\n' +
+    '      var tr = document.createElement("tr");\n' +
+    '      tr.innerHTML = \'<td class="dur">\' + e.watermark + "</td>"\n' +
+    '        + "<td>" + escHtml(new Date(e.changedAt).toLocaleString()) + "</td>"\n' +
+    '        + "<td>" + e.op + "</td>"\n' +
+    '        + "<td>" + escHtml(writer || "-") + "</td>"\n' +
+    '        + "<td>" + (lines.join("") || "-") + "</td>";\n' +
+    '      tbody.appendChild(tr);\n' +
+    '    }\n' +
+    '    var message = data.error || "no retained changes of this row";\n' +
+    '    if (!data.error && !data.changeHistory) message += " (start orez with --change-history to keep consumed changes)";\n' +
+    '    empty.textContent = message;\n' +
+    '    empty.style.display = entries.length ? "none" : "block";\n' +
+    '  }).catch(function() {});\n' +
+    '}\n' +
+    '\n' +
+    '["history-table", "history-key"].forEach(function(id) {\n' +
+    '  document.getElementById(id).addEventListener("keydown", function(e) {\n' +
+    '    if (e.key === "Enter") fetchHistory();\n' +
+    '  });\n' +
+    '});\n' +
+    '\n' +
     'function loadEnv() {\n' +
     '  fetch("/api/env").then(function(res) { return res.json(); }).then(function(data) {\n' +
     '    var tbody = document.getElementById("env-body");\n' +
@@ -635,6 +777,13 @@ export function getAdminHtml(): string {
     '  fetch("/api/status").then(function(res) { return res.json(); }).then(function(data) {\n' +
     '    document.getElementById("pg-port").textContent = ":" + data.pgPort;\n' +
     '    document.getElementById("zero-port").textContent = ":" + data.zeroPort;\n' +
+    '    var dbBadge = document.getElementById("db-badge");\n' +
+    '    dbBadge.textContent = "dbs: " + (data.databases || []).length;\n' +
+    '    dbBadge.title = (data.databases || []).join(", ");\n' +
+    '    var backlogBadge = document.getElementById("backlog-badge");\n' +
+    '    var replication = data.replication || { retainedChanges: 0, slots: [] };\n' +
+    '    backlogBadge.textContent = "backlog: " + replication.retainedChanges;\n' +
+    '    backlogBadge.title = replication.slots.map(function(s) { return s.slot + " flushed " + s.flushLsn + ", sent " + s.sentLsn + ", lag " + s.sendLag + (s.waitingForClient ? " (waiting for client)" : ""); }).join("\\n");\n' +
     '    document.getElementById("sqlite-badge").textContent = "sqlite: " + (data.sqliteMode || "wasm");\n' +
     '    var m = Math.floor(data.uptime / 60);\n' +
     '    var s = data.uptime % 60;\n' +
@@ -689,13 +838,15 @@ export function getAdminHtml(): string {
     'setInterval(function() {\n' +
     '  if (document.hidden) return;\n' +
     '  if (isHttpTab) fetchHttp();\n' +
-    '  else if (!isEnvTab) fetchLogs();\n' +
+    '  else if (isLocksTab) fetchLocks();\n' +
+    '  else if (!isEnvTab && !isHistoryTab) fetchLogs();\n' +
     '}, 1000);\n' +
     'setInterval(function() { if (!document.hidden) fetchStatus(); }, 5000);\n' +
     'document.addEventListener("visibilitychange", function() {\n' +
     '  if (document.hidden) return;\n' +
     '  if (isHttpTab) fetchHttp();\n' +
-    '  else if (!isEnvTab) fetchLogs();\n' +
+    '  else if (isLocksTab) fetchLocks();\n' +
+    '  else if (!isEnvTab && !isHistoryTab) fetchLogs();\n' +
     '  fetchStatus();\n' +
     '});\n' +
     '</script>\n' +
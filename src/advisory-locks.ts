@@ -0,0 +1,525 @@
+/**
+ * advisory lock emulation for proxy connections.
+ *
+ * every proxy connection to a database shares one pglite session, and a
+ * session never conflicts with its own advisory locks, so pg_advisory_lock()
+ * would always succeed right away. the proxy settles these calls itself
+ * instead: each pglite instance gets a lock table keyed like postgres's (one
+ * bigint or two int4 keys), owned by proxy connections, and the calls in a
+ * query are replaced by their results before pglite sees it.
+ */
+
+import { listDatabases } from './pglite-manager.js'
+import { SqlError } from './sql-error.js'
+
+import type { PGliteInstances } from './pglite-manager.js'
+import type { PGlite } from '@electric-sql/pglite'
+
+export type AdvisoryLockMode = 'exclusive' | 'shared'
+export type AdvisoryLockScope = 'session' | 'transaction'
+export type AdvisoryAction = 'lock' | 'try' | 'unlock' | 'unlock_all'
+
+export interface AdvisoryCall {
+  // function name, lower case and without schema
+  name: string
+  action: AdvisoryAction
+  mode: AdvisoryLockMode
+  scope: AdvisoryLockScope
+  // argument expressions as written
+  args: string[]
+  // span of the call in the query, including a pg_catalog. prefix
+  start: number
+  end: number
+}
+
+export interface AdvisoryLockInfo {
+  database: string
+  key: string
+  mode: AdvisoryLockMode
+  scope: AdvisoryLockScope
+  pid: number
+  count: number
+  // false for connections waiting on the lock
+  granted: boolean
+}
+
+const FUNCTIONS: Record<
+  string,
+  { action: AdvisoryAction; mode: AdvisoryLockMode; scope: AdvisoryLockScope }
+> = {
+  pg_advisory_lock: { action: 'lock', mode: 'exclusive', scope: 'session' },
+  pg_advisory_lock_shared: { action: 'lock', mode: 'shared', scope: 'session' },
+  pg_try_advisory_lock: { action: 'try', mode: 'exclusive', scope: 'session' },
+  pg_try_advisory_lock_shared: { action: 'try', mode: 'shared', scope: 'session' },
+  pg_advisory_xact_lock: { action: 'lock', mode: 'exclusive', scope: 'transaction' },
+  pg_advisory_xact_lock_shared: { action: 'lock', mode: 'shared', scope: 'transaction' },
+  pg_try_advisory_xact_lock: { action: 'try', mode: 'exclusive', scope: 'transaction' },
+  pg_try_advisory_xact_lock_shared: {
+    action: 'try',
+    mode: 'shared',
+    scope: 'transaction',
+  },
+  pg_advisory_unlock: { action: 'unlock', mode: 'exclusive', scope: 'session' },
+  pg_advisory_unlock_shared: { action: 'unlock', mode: 'shared', scope: 'session' },
+  pg_advisory_unlock_all: { action: 'unlock_all', mode: 'exclusive', scope: 'session' },
+}
+
+const CALL_PATTERN = /(?:pg_catalog\s*\.\s*)?(pg_\w*advisory\w*)\s*\(/iy
+
+// a plain integer (optionally quoted) or a $n parameter, with optional parens and int cast
+const ARG_PATTERN =
+  /^\(*\s*(?:(-?\d+)|'(-?\d+)'|\$(\d+))\s*\)*\s*(?:::\s*(?:bigint|int8|integer|int4|int|smallint|int2)\s*)?$/i
+
+/**
+ * skip a string literal, quoted identifier, dollar-quoted string or comment
+ * starting at `i`. returns the index after it, or `i` if there's none there.
+ */
+function skipLiteral(query: string, i: number): number {
+  const ch = query[i]
+  if (ch === "'" || ch === '"') {
+    let j = i + 1
+    while (j < query.length) {
+      if (query[j] === ch) {
+        if (query[j + 1] === ch) j += 2
+        else return j + 1
+      } else j++
+    }
+    return j
+  }
+  if (ch === '-' && query[i + 1] === '-') {
+    const end = query.indexOf('\n', i)
+    return end === -1 ? query.length : end + 1
+  }
+  if (ch === '/' && query[i + 1] === '*') {
+    const end = query.indexOf('*/', i + 2)
+    return end === -1 ? query.length : end + 2
+  }
+  if (ch === '$') {
+    const tag = /^\$[A-Za-z_]*\$/.exec(query.slice(i))
+    if (tag && !/\w/.test(query[i - 1] ?? '')) {
+      const end = query.indexOf(tag[0], i + tag[0].length)
+      return end === -1 ? query.length : end + tag[0].length
+    }
+  }
+  return i
+}
+
+/**
+ * find advisory lock function calls in a query. calls inside string literals,
+ * function bodies and comments are left alone, as are calls with argument
+ * counts postgres wouldn't accept.
+ */
+export function findAdvisoryCalls(query: string): AdvisoryCall[] {
+  if (!/advisory/i.test(query)) return []
+
+  const calls: AdvisoryCall[] = []
+  let i = 0
+  while (i < query.length) {
+    const skipped = skipLiteral(query, i)
+    if (skipped !== i) {
+      i = skipped
+      continue
+    }
+    if (/[\w.$]/.test(query[i - 1] ?? '') || !/[pP]/.test(query[i])) {
+      i++
+      continue
+    }
+
+    CALL_PATTERN.lastIndex = i
+    const match = CALL_PATTERN.exec(query)
+    const fn = match && FUNCTIONS[match[1].toLowerCase()]
+    if (!match || !fn) {
+      i++
+      continue
+    }
+
+    // collect top-level arguments up to the matching paren
+    const args: string[] = []
+    let depth = 1
+    let argStart = i + match[0].length
+    let j = argStart
+    while (j < query.length && depth > 0) {
+      const next = skipLiteral(query, j)
+      if (next !== j) {
+        j = next
+        continue
+      }
+      const ch = query[j]
+      if (ch === '(') depth++
+      else if (ch === ')') depth--
+      if ((ch === ',' && depth === 1) || depth === 0) {
+        args.push(query.slice(argStart, j).trim())
+        argStart = j + 1
+      }
+      j++
+    }
+    if (depth > 0) break
+
+    if (args.length === 1 && args[0] === '') args.pop()
+    const arity = fn.action === 'unlock_all' ? [0] : [1, 2]
+    if (arity.includes(args.length)) {
+      calls.push({ name: match[1].toLowerCase(), ...fn, args, start: i, end: j })
+    }
+    i = j
+  }
+  return calls
+}
+
+/**
+ * replace each call in a query with the SQL returned for it.
+ */
+export function rewriteAdvisoryCalls(
+  query: string,
+  calls: AdvisoryCall[],
+  replace: (call: AdvisoryCall, index: number) => string
+): string {
+  let result = ''
+  let pos = 0
+  calls.forEach((call, index) => {
+    result += query.slice(pos, call.start) + replace(call, index)
+    pos = call.end
+  })
+  return result + query.slice(pos)
+}
+
+/**
+ * the value of a lock key argument if it's a plain integer or a parameter,
+ * null if it needs evaluating. `param` resolves $n references.
+ */
+export function resolveAdvisoryArg(
+  expr: string,
+  param: (n: number) => bigint | null
+): bigint | null {
+  const match = ARG_PATTERN.exec(expr)
+  if (!match) return null
+  if (match[3]) return param(Number(match[3]))
+  return BigInt(match[1] ?? match[2])
+}
+
+/**
+ * lock table key for a call's resolved arguments. one bigint and two int4
+ * keys are separate key spaces in postgres, so they're kept apart here too.
+ */
+export function advisoryLockKey(args: bigint[]): string {
+  return args.join(':')
+}
+
+interface Hold {
+  owner: number
+  mode: AdvisoryLockMode
+  scope: AdvisoryLockScope
+  count: number
+}
+
+interface Waiter {
+  owner: number
+  key: string
+  mode: AdvisoryLockMode
+  scope: AdvisoryLockScope
+  // the waiter keeps the pglite instance locked while it waits (open transaction)
+  holdsInstance: boolean
+  resolve(): void
+  reject(err: Error): void
+}
+
+interface LockEntry {
+  holds: Hold[]
+  waiters: Waiter[]
+}
+
+function conflicts(a: AdvisoryLockMode, b: AdvisoryLockMode): boolean {
+  return a === 'exclusive' || b === 'exclusive'
+}
+
+/**
+ * advisory locks held and awaited by the connections to one pglite instance.
+ */
+export class AdvisoryLockTable {
+  private locks = new Map<string, LockEntry>()
+  private waiting = new Map<number, Waiter>()
+  // connections queued for the pglite instance itself
+  private instanceWaiters = new Set<number>()
+
+  /**
+   * take a lock if nothing conflicting holds or awaits it.
+   */
+  tryAcquire(
+    owner: number,
+    key: string,
+    mode: AdvisoryLockMode,
+    scope: AdvisoryLockScope
+  ): boolean {
+    const entry = this.locks.get(key)
+    if (entry && this.blocked(entry, owner, mode, entry.waiters.length)) return false
+    this.grant(key, owner, mode, scope)
+    return true
+  }
+
+  /**
+   * wait for a lock tryAcquire() couldn't take. rejects with a 40P01 error if
+   * waiting would deadlock, with 57P01 if the connection goes away first, or
+   * with the signal's reason when it's aborted.
+   */
+  wait(
+    owner: number,
+    key: string,
+    mode: AdvisoryLockMode,
+    scope: AdvisoryLockScope,
+    holdsInstance: boolean,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+      const onAbort = () => {
+        this.dropWaiter(waiter)
+        waiter.reject(signal!.reason)
+      }
+      const waiter: Waiter = {
+        owner,
+        key,
+        mode,
+        scope,
+        holdsInstance,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        },
+        reject: (err) => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(err)
+        },
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      let entry = this.locks.get(key)
+      if (!entry) {
+        entry = { holds: [], waiters: [] }
+        this.locks.set(key, entry)
+      }
+      entry.waiters.push(waiter)
+      this.waiting.set(owner, waiter)
+
+      if (this.inCycle(owner)) {
+        this.dropWaiter(waiter)
+        waiter.reject(new SqlError('40P01', 'deadlock detected'))
+        return
+      }
+      this.wake(key)
+    })
+  }
+
+  /**
+   * release one session-level hold. returns false if the owner didn't hold it.
+   */
+  unlock(owner: number, key: string, mode: AdvisoryLockMode): boolean {
+    const entry = this.locks.get(key)
+    const hold = entry?.holds.find(
+      (h) => h.owner === owner && h.mode === mode && h.scope === 'session'
+    )
+    if (!entry || !hold) return false
+    hold.count--
+    if (hold.count === 0) entry.holds.splice(entry.holds.indexOf(hold), 1)
+    this.wake(key)
+    return true
+  }
+
+  /**
+   * release every hold of one scope (or all scopes) by an owner.
+   */
+  releaseAll(owner: number, scope?: AdvisoryLockScope): void {
+    for (const [key, entry] of this.locks) {
+      const before = entry.holds.length
+      entry.holds = entry.holds.filter(
+        (h) => h.owner !== owner || (scope !== undefined && h.scope !== scope)
+      )
+      if (entry.holds.length !== before) this.wake(key)
+    }
+  }
+
+  /**
+   * forget a connection entirely: drop its holds and fail its pending wait.
+   */
+  removeOwner(owner: number): void {
+    const waiter = this.waiting.get(owner)
+    if (waiter) {
+      this.dropWaiter(waiter)
+      waiter.reject(new SqlError('57P01', 'connection closed'))
+    }
+    this.instanceWaiters.delete(owner)
+    this.releaseAll(owner)
+  }
+
+  /**
+   * record that a connection is queued for the pglite instance. a connection
+   * waiting on a lock inside a transaction keeps the instance locked, so if a
+   * holder of that lock now queues behind it, the waiter has deadlocked.
+   */
+  setInstanceWait(owner: number, waiting: boolean): void {
+    if (!waiting) {
+      this.instanceWaiters.delete(owner)
+      return
+    }
+    this.instanceWaiters.add(owner)
+    if (!this.inCycle(owner)) return
+    for (const waiter of this.waiting.values()) {
+      if (waiter.holdsInstance) {
+        this.dropWaiter(waiter)
+        waiter.reject(new SqlError('40P01', 'deadlock detected'))
+      }
+    }
+  }
+
+  list(database: string): AdvisoryLockInfo[] {
+    const infos: AdvisoryLockInfo[] = []
+    for (const [key, entry] of this.locks) {
+      for (const h of entry.holds) {
+        infos.push({
+          database,
+          key,
+          mode: h.mode,
+          scope: h.scope,
+          pid: h.owner,
+          count: h.count,
+          granted: true,
+        })
+      }
+      for (const w of entry.waiters) {
+        infos.push({
+          database,
+          key,
+          mode: w.mode,
+          scope: w.scope,
+          pid: w.owner,
+          count: 0,
+          granted: false,
+        })
+      }
+    }
+    return infos
+  }
+
+  // whether `owner` taking `mode` conflicts with another owner's hold, or with
+  // a waiter queued ahead of position `queuedBefore`
+  private blocked(
+    entry: LockEntry,
+    owner: number,
+    mode: AdvisoryLockMode,
+    queuedBefore: number
+  ): boolean {
+    if (entry.holds.some((h) => h.owner !== owner && conflicts(h.mode, mode))) {
+      return true
+    }
+    // locks already held by the owner skip the queue, like in postgres
+    if (entry.holds.some((h) => h.owner === owner)) return false
+    return entry.waiters
+      .slice(0, queuedBefore)
+      .some((w) => w.owner !== owner && conflicts(w.mode, mode))
+  }
+
+  private grant(
+    key: string,
+    owner: number,
+    mode: AdvisoryLockMode,
+    scope: AdvisoryLockScope
+  ): void {
+    let entry = this.locks.get(key)
+    if (!entry) {
+      entry = { holds: [], waiters: [] }
+      this.locks.set(key, entry)
+    }
+    const hold = entry.holds.find(
+      (h) => h.owner === owner && h.mode === mode && h.scope === scope
+    )
+    if (hold) hold.count++
+    else entry.holds.push({ owner, mode, scope, count: 1 })
+  }
+
+  // grant queued waiters that no longer conflict, in queue order
+  private wake(key: string): void {
+    const entry = this.locks.get(key)
+    if (!entry) return
+    for (let i = 0; i < entry.waiters.length; ) {
+      const waiter = entry.waiters[i]
+      if (this.blocked(entry, waiter.owner, waiter.mode, i)) {
+        i++
+        continue
+      }
+      entry.waiters.splice(i, 1)
+      this.waiting.delete(waiter.owner)
+      this.grant(key, waiter.owner, waiter.mode, waiter.scope)
+      waiter.resolve()
+    }
+    if (entry.holds.length === 0 && entry.waiters.length === 0) this.locks.delete(key)
+  }
+
+  private dropWaiter(waiter: Waiter): void {
+    this.waiting.delete(waiter.owner)
+    const entry = this.locks.get(waiter.key)
+    if (!entry) return
+    entry.waiters = entry.waiters.filter((w) => w !== waiter)
+    this.wake(waiter.key)
+  }
+
+  // who `owner` is waiting for: holders of the lock it wants, or the
+  // connection keeping the instance locked while it waits on a lock
+  private waitsFor(owner: number): number[] {
+    const result: number[] = []
+    const waiter = this.waiting.get(owner)
+    if (waiter) {
+      const entry = this.locks.get(waiter.key)
+      for (const h of entry?.holds ?? []) {
+        if (h.owner !== owner && conflicts(h.mode, waiter.mode)) result.push(h.owner)
+      }
+    }
+    if (this.instanceWaiters.has(owner)) {
+      for (const w of this.waiting.values()) {
+        if (w.holdsInstance && w.owner !== owner) result.push(w.owner)
+      }
+    }
+    return result
+  }
+
+  private inCycle(start: number): boolean {
+    const seen = new Set<number>()
+    const stack = this.waitsFor(start)
+    while (stack.length > 0) {
+      const owner = stack.pop()!
+      if (owner === start) return true
+      if (seen.has(owner)) continue
+      seen.add(owner)
+      stack.push(...this.waitsFor(owner))
+    }
+    return false
+  }
+}
+
+const tables = new WeakMap<PGlite, AdvisoryLockTable>()
+
+/**
+ * the advisory lock table of a pglite instance.
+ */
+export function getAdvisoryLockTable(db: PGlite): AdvisoryLockTable {
+  let table = tables.get(db)
+  if (!table) {
+    table = new AdvisoryLockTable()
+    tables.set(db, table)
+  }
+  return table
+}
+
+/**
+ * every advisory lock held or awaited across the instances, for the admin dashboard.
+ */
+export function listAdvisoryLocks(instances: PGliteInstances): AdvisoryLockInfo[] {
+  const seen = new Set<PGlite>()
+  const infos: AdvisoryLockInfo[] = []
+  for (const [database, db] of listDatabases(instances)) {
+    if (seen.has(db)) continue
+    seen.add(db)
+    const table = tables.get(db)
+    if (table) infos.push(...table.list(database))
+  }
+  return infos
+}
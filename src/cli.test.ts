@@ -1,14 +1,20 @@
 import { spawn } from 'node:child_process'
-import { resolve } from 'node:path'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
 
+import { PGlite } from '@electric-sql/pglite'
 import { describe, it, expect } from 'vitest'
 
+import { installChangeTracking } from './replication/change-tracker'
+
 function runCli(
-  args: string[]
+  args: string[],
+  timeout = 10_000
 ): Promise<{ stdout: string; stderr: string; code: number }> {
   return new Promise((res) => {
     const child = spawn('bun', [resolve('dist/cli.js'), ...args], {
-      timeout: 10_000,
+      timeout,
       env: { ...process.env, NODE_ENV: 'test' },
     })
     let stdout = ''
@@ -35,4 +41,71 @@ describe('cli', () => {
     expect(output).toContain('--port')
     expect(output).toContain('--data-dir')
   })
+
+  it('changes says when it reads the data dir because nothing is listening', async () => {
+    const dataDir = join(tmpdir(), 'orez-changes-missing')
+    const { stderr, code } = await runCli([
+      'changes',
+      '--data-dir',
+      dataDir,
+      '--host',
+      'localhost',
+      '--pg-port',
+      '1',
+    ])
+    expect(stderr).toContain('nothing is listening on localhost:1, reading')
+    expect(stderr).toContain('no database found')
+    expect(code).toBe(1)
+  })
+
+  it('changes prints the retained history of a stopped data dir', async () => {
+    const dataDir = mkdtempSync(join(tmpdir(), 'orez-changes-'))
+    try {
+      const db = new PGlite({ dataDir: join(dataDir, 'pgdata-postgres') })
+      await db.exec(`CREATE TABLE public.items (id INTEGER PRIMARY KEY, name TEXT)`)
+      await installChangeTracking(db)
+      await db.exec(`
+        INSERT INTO public.items VALUES (1, 'a'), (2, 'b');
+        UPDATE public.items SET name = 'c' WHERE id = 1;
+        DELETE FROM public.items WHERE id = 2;
+      `)
+      await db.close()
+
+      // each run starts pglite on the data dir, which takes a while on a busy machine
+      const changes = async (...args: string[]) => {
+        const { stdout, code } = await runCli(
+          ['changes', '--data-dir', dataDir, '--direct', '--format', 'jsonl', ...args],
+          30_000
+        )
+        expect(code).toBe(0)
+        return stdout
+          .trim()
+          .split('\n')
+          .filter(Boolean)
+          .map((line) => JSON.parse(line))
+      }
+
+      const all = await changes()
+      expect(all.map(({ op, row, oldRow }) => ({ op, row, oldRow }))).toEqual([
+        { op: 'INSERT', row: { id: 1, name: 'a' }, oldRow: null },
+        { op: 'INSERT', row: { id: 2, name: 'b' }, oldRow: null },
+        { op: 'UPDATE', row: { id: 1, name: 'c' }, oldRow: { id: 1, name: 'a' } },
+        { op: 'DELETE', row: null, oldRow: { id: 2, name: 'b' } },
+      ])
+      expect(all[0]).toMatchObject({
+        table: 'public.items',
+        watermark: expect.any(Number),
+      })
+
+      expect((await changes('--op', 'insert', '--limit', '1')).map((c) => c.row)).toEqual(
+        [{ id: 2, name: 'b' }]
+      )
+      expect(
+        (await changes('--since-watermark', String(all[1].watermark))).map((c) => c.op)
+      ).toEqual(['UPDATE', 'DELETE'])
+      expect(await changes('--table', 'other')).toEqual([])
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true })
+    }
+  }, 150_000)
 })
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+
+import { parseDatabaseCommand } from './database-commands.js'
+
+describe('parseDatabaseCommand', () => {
+  it('parses create and drop', () => {
+    expect(parseDatabaseCommand('CREATE DATABASE Worker_1')).toEqual({
+      action: 'create',
+      name: 'worker_1',
+      ifExists: false,
+      force: false,
+    })
+    expect(
+      parseDatabaseCommand('drop database if exists "My""Db" with (force);')
+    ).toEqual({
+      action: 'drop',
+      name: 'My"Db',
+      ifExists: true,
+      force: true,
+    })
+  })
+
+  it('ignores create options', () => {
+    expect(
+      parseDatabaseCommand("CREATE DATABASE app OWNER postgres ENCODING 'UTF8'")?.name
+    ).toBe('app')
+  })
+
+  it('returns null for anything else', () => {
+    expect(parseDatabaseCommand('SELECT 1')).toBeNull()
+    expect(parseDatabaseCommand('CREATE DATABASE IF EXISTS app')).toBeNull()
+    expect(parseDatabaseCommand('CREATE DATABASE app; SELECT 1')).toBeNull()
+    expect(parseDatabaseCommand('ALTER DATABASE app SET timezone = utc')).toBeNull()
+  })
+})
@@ -0,0 +1,41 @@
+/**
+ * CREATE DATABASE and DROP DATABASE through the proxy.
+ *
+ * every database is a pglite instance of its own, and pglite can't reach
+ * other databases from inside one, so the proxy recognizes these statements
+ * and creates or drops the instance itself. options like OWNER or TEMPLATE
+ * are accepted and ignored.
+ */
+
+export interface DatabaseCommand {
+  action: 'create' | 'drop'
+  name: string
+  // DROP DATABASE IF EXISTS
+  ifExists: boolean
+  // DROP DATABASE ... WITH (FORCE): disconnect other clients first
+  force: boolean
+}
+
+const DATABASE_COMMAND =
+  /^\s*(CREATE|DROP)\s+DATABASE\s+(IF\s+EXISTS\s+)?("(?:[^"]|"")+"|[A-Za-z_][\w$]*)([^;]*);?\s*$/i
+
+/**
+ * parse a CREATE/DROP DATABASE statement. returns null for anything else,
+ * including a query with more statements after it.
+ */
+export function parseDatabaseCommand(query: string): DatabaseCommand | null {
+  const match = query.match(DATABASE_COMMAND)
+  if (!match) return null
+  const [, verb, ifExists, ident, rest] = match
+  const action = verb.toLowerCase() as DatabaseCommand['action']
+  if (action === 'create' && ifExists) return null
+  const name = ident.startsWith('"')
+    ? ident.slice(1, -1).replace(/""/g, '"')
+    : ident.toLowerCase()
+  return {
+    action,
+    name,
+    ifExists: Boolean(ifExists),
+    force: action === 'drop' && /\(\s*FORCE\s*\)/i.test(rest),
+  }
+}
@@ -18,15 +18,29 @@ import {
 import { createLogStore, type LogStore } from './admin/log-store.js'
 import { getConfig, getConnectionString } from './config.js'
 import { log, port, setLogLevel, setLogStore } from './log.js'
+import { warnIfExposed } from './network.js'
 import { startPgProxy } from './pg-proxy.js'
 import { createPGliteInstances, runMigrations } from './pglite-manager.js'
 import { findPort } from './port.js'
+import { getManagedPublicationConfig, syncManagedPublications } from './publications.js'
 import {
   cleanCdcStateOnStartup,
   hasCdcCorruptionSignature,
+  isLsnSchemeOutdated,
+  recordLsnScheme,
   recoverFromCdcCorruption,
 } from './recovery.js'
+import {
+  subscribeChanges,
+  type ChangeCallback,
+  type ChangeFilter,
+} from './replication/change-feed.js'
 import { installChangeTracking } from './replication/change-tracker.js'
+import {
+  waitForReplication,
+  type WaitForReplicationOptions,
+} from './replication/handler.js'
+import { getRowHistory, type RowKey } from './replication/row-history.js'
 import {
   formatNativeBootstrapInstructions,
   hasMissingNativeBinarySignature,
@@ -43,7 +57,21 @@ import type { PGlite } from '@electric-sql/pglite'
 type ZeroChildProcess = ChildProcess & { __orezTail?: string[] }
 
 export { getConfig, getConnectionString } from './config.js'
-export type { Hook, LogLevel, ZeroLiteConfig } from './config.js'
+export type {
+  ChangeCapture,
+  ChangeHistory,
+  Hook,
+  LogLevel,
+  ZeroLiteConfig,
+} from './config.js'
+export type {
+  ChangeCallback,
+  ChangeEvent,
+  ChangeFilter,
+  ChangeOp,
+} from './replication/change-feed.js'
+export type { WaitForReplicationOptions } from './replication/handler.js'
+export type { ColumnChange, RowHistoryEntry, RowKey } from './replication/row-history.js'
 
 // helper to run a hook (string command or callback function)
 async function runHook(
@@ -80,60 +108,6 @@ async function runHook(
   })
 }
 
-function getManagedPublicationConfig(): { names: string[]; managedByOrez: boolean } {
-  const existing = process.env.ZERO_APP_PUBLICATIONS?.trim()
-  if (existing) {
-    const names = existing
-      .split(',')
-      .map((s) => s.trim())
-      .filter(Boolean)
-    return { names, managedByOrez: false }
-  }
-
-  const appId = (process.env.ZERO_APP_ID || 'zero').trim() || 'zero'
-  const fallback = `orez_${appId}_public`
-  process.env.ZERO_APP_PUBLICATIONS = fallback
-  return { names: [fallback], managedByOrez: true }
-}
-
-async function syncManagedPublications(
-  db: PGlite,
-  names: string[],
-  managedByOrez: boolean
-): Promise<void> {
-  if (!managedByOrez || names.length === 0) return
-
-  const tables = await db.query<{ tablename: string }>(
-    `SELECT tablename
-     FROM pg_tables
-     WHERE schemaname = 'public'
-       AND tablename NOT LIKE '_zero_%'`
-  )
-  const publicTables = tables.rows
-    .map((r) => r.tablename)
-    .filter((t) => !t.startsWith('_'))
-
-  for (const pub of names) {
-    const quotedPub = '"' + pub.replace(/"/g, '""') + '"'
-    await db.exec(`CREATE PUBLICATION ${quotedPub}`).catch(() => {})
-
-    if (publicTables.length === 0) continue
-    const inPub = await db.query<{ tablename: string }>(
-      `SELECT tablename
-       FROM pg_publication_tables
-       WHERE pubname = $1
-         AND schemaname = 'public'`,
-      [pub]
-    )
-    const inPubSet = new Set(inPub.rows.map((r) => r.tablename))
-    const toAdd = publicTables.filter((t) => !inPubSet.has(t))
-    if (toAdd.length === 0) continue
-    const tableList = toAdd.map((t) => `"public"."${t.replace(/"/g, '""')}"`).join(', ')
-    await db.exec(`ALTER PUBLICATION ${quotedPub} ADD TABLE ${tableList}`)
-    log.debug.orez(`added ${toAdd.length} table(s) to publication "${pub}"`)
-  }
-}
-
 // resolvePackage moved to sqlite-mode/resolve-mode.ts
 import { resolvePackage } from './sqlite-mode/resolve-mode.js'
 
@@ -141,12 +115,15 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
   const config = getConfig(overrides)
   setLogLevel(config.logLevel)
 
+  warnIfExposed(config.host, config.allowedIps)
+
   // find available ports
-  const pgPort = await findPort(config.pgPort)
+  const pgPort = await findPort(config.pgPort, config.host)
   const zeroPort = config.skipZeroCache
     ? config.zeroPort
-    : await findPort(config.zeroPort)
-  const adminPort = config.adminPort > 0 ? await findPort(config.adminPort) : 0
+    : await findPort(config.zeroPort, config.host)
+  const adminPort =
+    config.adminPort > 0 ? await findPort(config.adminPort, config.host) : 0
   if (pgPort !== config.pgPort)
     log.debug.orez(`port ${config.pgPort} in use, using ${pgPort}`)
   if (!config.skipZeroCache && zeroPort !== config.zeroPort)
@@ -212,7 +189,7 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
 
   // install change tracking (on postgres instance only)
   log.debug.orez('installing change tracking')
-  await installChangeTracking(db)
+  await installChangeTracking(db, config.changeCapture, config.changeHistory)
 
   // start tcp proxy (routes connections to correct instance by database name)
   const pgServer = await startPgProxy(instances, config)
@@ -241,16 +218,19 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     // re-install change tracking on tables created by on-db-ready
     await syncManagedPublications(db, managedPub.names, managedPub.managedByOrez)
     log.debug.orez('re-installing change tracking after on-db-ready')
-    await installChangeTracking(db)
+    await installChangeTracking(db, config.changeCapture, config.changeHistory)
   }
 
-  // clean up stale sqlite replica from previous runs
-  cleanupStaleReplica(config)
-
-  // proactively clean CDC state to prevent duplicate key errors on restart.
-  // this handles cases where orez was killed (SIGKILL) mid-transaction,
-  // leaving stale watermarks in the changeLog table.
-  await cleanCdcStateOnStartup(instances.cdb)
+  // the sqlite replica and CVR/CDB from previous runs are kept: replication
+  // lsns are derived from the change log, so zero-cache resumes where it was.
+  // state from before that holds lsns of the old scheme, so it's reset once.
+  if (await isLsnSchemeOutdated(db)) {
+    log.debug.orez('replication state predates watermark lsns, resetting it')
+    cleanupStaleReplica(config)
+    await cleanCdcStateOnStartup(instances.cdb)
+    await db.exec(`TRUNCATE _orez._zero_replication_slots`)
+    await recordLsnScheme(db)
+  }
 
   // when admin is enabled, zero-cache runs on internal port with http proxy in front
   let zeroInternalPort = config.zeroPort
@@ -315,6 +295,8 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
         listenPort: config.zeroPort,
         targetPort: zeroInternalPort,
         httpLog,
+        host: config.host,
+        allowedIps: config.allowedIps,
       })
       log.debug.orez(`http proxy listening on ${config.zeroPort}`)
     }
@@ -485,7 +467,7 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
       // triggers reflect any schema changes introduced by restore.
       await syncManagedPublications(db, managedPub.names, managedPub.managedByOrez)
       log.debug.orez('re-installing change tracking after full reset')
-      await installChangeTracking(db)
+      await installChangeTracking(db, config.changeCapture, config.changeHistory)
 
       // restart zero-cache
       log.orez('starting zero-cache...')
@@ -542,6 +524,7 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
       instances.postgres.close(),
       instances.cvr.close(),
       instances.cdb.close(),
+      ...[...instances.databases.values()].map((db) => db.close()),
     ])
     try {
       unlinkSync(pidFile)
@@ -569,6 +552,17 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     resetZero: config.skipZeroCache ? undefined : () => resetZeroState('cache-only'),
     // full reset: CVR/CDB + replica (for schema changes, used by pg_restore via SIGUSR1)
     resetZeroFull: config.skipZeroCache ? undefined : () => resetZeroState('full'),
+    // resolves once every change committed so far reached zero-cache (or any
+    // other replication client) and was flushed by it
+    waitForReplication: (options?: WaitForReplicationOptions) =>
+      waitForReplication(db, options),
+    // changes committed from now on that match the filter, read from the
+    // change log without affecting replication. returns an unsubscribe function.
+    onChange: (filter: ChangeFilter, callback: ChangeCallback) =>
+      subscribeChanges(db, filter, callback),
+    // retained changes of one row by primary key, oldest first. reaches back
+    // further than the unconsumed changes only with changeHistory set.
+    rowHistory: (table: string, key: RowKey) => getRowHistory(db, table, key),
   }
 }
 
@@ -11,6 +11,7 @@ const COLORS = {
   yellow: '\x1b[33m',
   magenta: '\x1b[35m',
   blue: '\x1b[34m',
+  red: '\x1b[31m',
 } as const
 
 const LEVEL_PRIORITY: Record<LogLevel, number> = {
@@ -46,6 +47,16 @@ export function url(u: string): string {
   return `${COLORS.green}${u}${RESET}`
 }
 
+/** format text in a color, or dim without one */
+export function colored(s: string, color?: keyof typeof COLORS): string {
+  return `${color ? COLORS[color] : DIM}${s}${RESET}`
+}
+
+/** format a warning in bold yellow */
+export function warning(s: string): string {
+  return `${BOLD}${COLORS.yellow}${s}${RESET}`
+}
+
 // map logger labels to logStore source names
 const LABEL_TO_SOURCE: Record<string, string> = {
   orez: 'orez',
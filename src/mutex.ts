@@ -1,15 +1,28 @@
+import type { PGlite } from '@electric-sql/pglite'
+
 // simple mutex for serializing pglite access
 export class Mutex {
   private locked = false
   private queue: Array<() => void> = []
 
-  async acquire(): Promise<void> {
+  // a queued acquire rejects with the signal's reason if it's aborted first
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw signal.reason
     if (!this.locked) {
       this.locked = true
       return
     }
-    return new Promise<void>((resolve) => {
-      this.queue.push(resolve)
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(grant), 1)
+        reject(signal!.reason)
+      }
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(grant)
     })
   }
 
@@ -22,3 +35,18 @@ export class Mutex {
     }
   }
 }
+
+const instanceMutexes = new WeakMap<PGlite, Mutex>()
+
+/**
+ * the mutex serializing access to a pglite instance's single session, shared
+ * by proxy connections and anything else querying it while the proxy runs.
+ */
+export function getInstanceMutex(db: PGlite): Mutex {
+  let mutex = instanceMutexes.get(db)
+  if (!mutex) {
+    mutex = new Mutex()
+    instanceMutexes.set(db, mutex)
+  }
+  return mutex
+}
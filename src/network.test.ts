@@ -0,0 +1,67 @@
+import { createServer, type Server, type Socket } from 'node:net'
+
+import { describe, it, expect, vi } from 'vitest'
+
+import { connectHost, createAllowList, guardServer, lanAddresses } from './network.js'
+
+describe('network', () => {
+  describe('createAllowList', () => {
+    it('matches addresses and cidr ranges', () => {
+      const allowed = createAllowList(['192.168.1.0/24', '10.0.0.7', 'fd00::/8'])
+      expect(allowed('192.168.1.42')).toBe(true)
+      expect(allowed('192.168.2.42')).toBe(false)
+      expect(allowed('10.0.0.7')).toBe(true)
+      expect(allowed('10.0.0.8')).toBe(false)
+      expect(allowed('fd12::1')).toBe(true)
+      // ipv4 clients of a dual-stack server
+      expect(allowed('::ffff:192.168.1.42')).toBe(true)
+      expect(allowed('::ffff:172.16.0.1')).toBe(false)
+    })
+
+    it('always allows loopback', () => {
+      const allowed = createAllowList(['10.0.0.0/8'])
+      expect(allowed('127.0.0.1')).toBe(true)
+      expect(allowed('::1')).toBe(true)
+      expect(allowed('::ffff:127.0.0.1')).toBe(true)
+    })
+
+    it('allows everyone when empty', () => {
+      expect(createAllowList([])('203.0.113.9')).toBe(true)
+    })
+
+    it('rejects malformed entries', () => {
+      expect(() => createAllowList(['192.168.1.0/abc'])).toThrow(/invalid allowed ip/)
+      expect(() => createAllowList(['my-laptop'])).toThrow(/invalid allowed ip/)
+    })
+  })
+
+  it('drops connections from outside the allowlist', () => {
+    const server: Server = createServer()
+    guardServer(server, ['192.168.1.0/24'])
+    const connect = (remoteAddress: string) => {
+      const socket = { remoteAddress, destroy: vi.fn() }
+      server.emit('connection', socket as unknown as Socket)
+      return socket.destroy.mock.calls.length > 0
+    }
+    expect(connect('192.168.1.5')).toBe(false)
+    expect(connect('127.0.0.1')).toBe(false)
+    expect(connect('203.0.113.9')).toBe(true)
+  })
+
+  it('connects to its own servers over loopback unless bound to one address', () => {
+    expect(connectHost('127.0.0.1')).toBe('127.0.0.1')
+    expect(connectHost('0.0.0.0')).toBe('127.0.0.1')
+    expect(connectHost('::')).toBe('127.0.0.1')
+    expect(connectHost('192.168.1.5')).toBe('192.168.1.5')
+    expect(connectHost('fd00::5')).toBe('[fd00::5]')
+  })
+
+  it('lists lan addresses only when reachable from the network', () => {
+    expect(lanAddresses('127.0.0.1')).toEqual([])
+    expect(lanAddresses('localhost')).toEqual([])
+    expect(lanAddresses('192.168.1.5')).toEqual(['192.168.1.5'])
+    for (const address of lanAddresses('0.0.0.0')) {
+      expect(address).not.toMatch(/^127\./)
+    }
+  })
+})
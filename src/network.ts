@@ -0,0 +1,118 @@
+/**
+ * where orez's servers listen and who may connect to them.
+ *
+ * everything binds to 127.0.0.1 unless `host` says otherwise. binding to a
+ * LAN or wildcard address lets phones and VMs on the network in, optionally
+ * limited to an allowlist of IPs and CIDR ranges. loopback and this machine's
+ * own addresses are always allowed, since orez connects to its own servers.
+ */
+
+import { BlockList, isIP, type Server } from 'node:net'
+import { networkInterfaces } from 'node:os'
+
+import { log, warning } from './log.js'
+
+export const DEFAULT_HOST = '127.0.0.1'
+
+export interface ListenOptions {
+  host?: string
+  allowedIps?: string[]
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\./.test(host)
+}
+
+function isWildcardHost(host: string): boolean {
+  return host === '0.0.0.0' || host === '::'
+}
+
+// ipv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') && isIP(address.slice(7)) === 4
+    ? address.slice(7)
+    : address
+}
+
+/**
+ * the host to connect to orez's own servers on: loopback unless they're
+ * bound to one specific address.
+ */
+export function connectHost(host: string): string {
+  const connect = isLoopbackHost(host) || isWildcardHost(host) ? DEFAULT_HOST : host
+  return isIP(connect) === 6 ? `[${connect}]` : connect
+}
+
+/**
+ * addresses other devices can reach servers bound to `host` on.
+ */
+export function lanAddresses(host: string): string[] {
+  if (isLoopbackHost(host)) return []
+  if (!isWildcardHost(host)) return [connectHost(host)]
+  const addresses: string[] = []
+  for (const infos of Object.values(networkInterfaces())) {
+    for (const info of infos ?? []) {
+      if (!info.internal && info.family === 'IPv4') addresses.push(info.address)
+    }
+  }
+  return addresses
+}
+
+/**
+ * build a check for client addresses from allowlist entries (IPs or CIDR
+ * ranges). an empty allowlist allows everyone who can reach the server.
+ */
+export function createAllowList(entries: string[]): (address: string) => boolean {
+  if (entries.length === 0) return () => true
+  const list = new BlockList()
+  for (const entry of entries) {
+    const [ip, bits] = entry.trim().split('/')
+    if (!isIP(ip) || (bits !== undefined && !/^\d+$/.test(bits))) {
+      throw new Error(`invalid allowed ip "${entry}", expected an IP or CIDR range`)
+    }
+    const type = isIP(ip) === 6 ? 'ipv6' : 'ipv4'
+    if (bits === undefined) list.addAddress(ip, type)
+    else list.addSubnet(ip, Number(bits), type)
+  }
+  const local = new Set(
+    Object.values(networkInterfaces()).flatMap((infos) =>
+      (infos ?? []).map((info) => info.address)
+    )
+  )
+
+  return (address) => {
+    const ip = normalizeAddress(address)
+    if (isLoopbackHost(ip) || local.has(ip)) return true
+    return list.check(ip, isIP(ip) === 6 ? 'ipv6' : 'ipv4')
+  }
+}
+
+/**
+ * drop connections from addresses the allowlist doesn't cover.
+ */
+export function guardServer(server: Server, allowedIps: string[] = []): void {
+  if (allowedIps.length === 0) return
+  const allowed = createAllowList(allowedIps)
+  server.on('connection', (socket) => {
+    const address = socket.remoteAddress ?? ''
+    if (allowed(address)) return
+    log.debug.orez(`refused connection from ${address}`)
+    socket.destroy()
+  })
+}
+
+/**
+ * warn loudly when servers are reachable from other machines.
+ */
+export function warnIfExposed(host: string, allowedIps: string[]): void {
+  if (isLoopbackHost(host)) return
+  const who =
+    allowedIps.length > 0
+      ? `clients from ${allowedIps.join(', ')}`
+      : 'anyone who can reach this machine'
+  log.orez(
+    warning(
+      `listening on ${host}: ${who} can connect to the database and admin dashboard, which use development credentials`
+    )
+  )
+}
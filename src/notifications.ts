@@ -0,0 +1,123 @@
+/**
+ * LISTEN/NOTIFY fan-out for proxy connections.
+ *
+ * every proxy connection to a database shares one pglite session, so pglite
+ * only knows that "the session" listens on a channel. the hub tracks which
+ * proxy connection listens where and hands each notification pglite raises to
+ * the connections listening on that channel, stamped with the pid of the
+ * connection whose statement sent it.
+ */
+
+import type { PGlite } from '@electric-sql/pglite'
+
+export interface NotificationListener {
+  pid: number
+  channels: Set<string>
+  deliver(message: Uint8Array): void
+}
+
+export interface ListenCommand {
+  command: 'LISTEN' | 'UNLISTEN'
+  // normalized channel name, '*' for UNLISTEN *
+  channel: string
+}
+
+const LISTEN_PATTERN = /(?:^|;)\s*(LISTEN|UNLISTEN)\s+("(?:[^"]|"")+"|\*|[^\s;]+)/gi
+
+/**
+ * find LISTEN/UNLISTEN statements in a query, with channel names normalized
+ * the way postgres does (unquoted identifiers fold to lower case).
+ */
+export function parseListenCommands(query: string): ListenCommand[] {
+  const commands: ListenCommand[] = []
+  for (const match of query.matchAll(LISTEN_PATTERN)) {
+    const raw = match[2]
+    const channel = raw.startsWith('"')
+      ? raw.slice(1, -1).replace(/""/g, '"')
+      : raw === '*'
+        ? '*'
+        : raw.toLowerCase()
+    commands.push({
+      command: match[1].toUpperCase() as ListenCommand['command'],
+      channel,
+    })
+  }
+  return commands
+}
+
+/**
+ * quote a channel name for a LISTEN/UNLISTEN statement.
+ */
+export function quoteChannel(channel: string): string {
+  return `"${channel.replace(/"/g, '""')}"`
+}
+
+/**
+ * build a NotificationResponse message (type 'A', 0x41).
+ */
+export function buildNotificationResponse(
+  pid: number,
+  channel: string,
+  payload: string
+): Uint8Array {
+  const encoder = new TextEncoder()
+  const channelBytes = encoder.encode(channel)
+  const payloadBytes = encoder.encode(payload)
+  const len = 4 + 4 + channelBytes.length + 1 + payloadBytes.length + 1
+  const buf = new Uint8Array(1 + len)
+  const view = new DataView(buf.buffer)
+  buf[0] = 0x41 // 'A'
+  view.setInt32(1, len)
+  view.setInt32(5, pid)
+  buf.set(channelBytes, 9)
+  buf.set(payloadBytes, 9 + channelBytes.length + 1)
+  return buf
+}
+
+/**
+ * routes notifications from one pglite instance to listening connections.
+ */
+export class NotificationHub {
+  private db: PGlite | null = null
+  private unsubscribe: (() => void) | null = null
+  private listeners = new Set<NotificationListener>()
+
+  // pid of the connection whose statement pglite is executing, 0 = orez itself
+  sender = 0
+
+  /**
+   * subscribe to the instance's notifications. safe to call repeatedly, and
+   * re-subscribes if the instance was replaced (e.g. after a reset).
+   */
+  attach(db: PGlite): void {
+    if (this.db === db) return
+    this.unsubscribe?.()
+    this.db = db
+    this.unsubscribe = db.onNotification((channel, payload) => {
+      const message = buildNotificationResponse(this.sender, channel, payload)
+      for (const listener of this.listeners) {
+        if (listener.channels.has(channel)) listener.deliver(message)
+      }
+    })
+  }
+
+  add(listener: NotificationListener): void {
+    this.listeners.add(listener)
+  }
+
+  delete(listener: NotificationListener): void {
+    this.listeners.delete(listener)
+  }
+
+  /**
+   * channels some listener other than `except` still needs.
+   */
+  channelsInUse(except?: NotificationListener): Set<string> {
+    const channels = new Set<string>()
+    for (const listener of this.listeners) {
+      if (listener === except) continue
+      for (const channel of listener.channels) channels.add(channel)
+    }
+    return channels
+  }
+}
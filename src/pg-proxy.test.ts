@@ -0,0 +1,1101 @@
+import {
+  X509Certificate,
+  createHash,
+  createHmac,
+  pbkdf2Sync,
+  randomBytes,
+} from 'node:crypto'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { createConnection, type Socket } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { PGlite } from '@electric-sql/pglite'
+import postgres from 'postgres'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+
+import { getConfig, getConnectionString } from './config.js'
+import { getInstanceMutex } from './mutex.js'
+import { startPgProxy } from './pg-proxy.js'
+import { ensureUserRoles } from './pg-users.js'
+import { countChanges, installChangeTracking } from './replication/change-tracker.js'
+import { generateSelfSignedCert } from './tls-cert.js'
+
+import type { ZeroLiteConfig } from './config.js'
+import type { PGliteInstances } from './pglite-manager.js'
+import type { AddressInfo, Server } from 'node:net'
+
+// --- minimal wire protocol client, for checks below the driver level ---
+
+interface RawMessage {
+  type: string
+  body: Buffer
+}
+
+// build a frontend message: strings are null-terminated, numbers are int16
+function frontend(type: string, ...parts: Array<string | number | Buffer>): Buffer {
+  const body = Buffer.concat(
+    parts.map((p) => {
+      if (typeof p === 'string') return Buffer.from(p + '\0')
+      if (typeof p === 'number') {
+        const b = Buffer.alloc(2)
+        b.writeInt16BE(p)
+        return b
+      }
+      return p
+    })
+  )
+  const header = Buffer.alloc(5)
+  header.write(type, 0)
+  header.writeInt32BE(4 + body.length, 1)
+  return Buffer.concat([header, body])
+}
+
+const int32 = (n: number) => {
+  const b = Buffer.alloc(4)
+  b.writeInt32BE(n)
+  return b
+}
+
+const parse = (name: string, query: string) => frontend('P', name, query, 0)
+const bind = (portal: string, statement: string) =>
+  frontend('B', portal, statement, 0, 0, 0)
+const execute = (portal: string) => frontend('E', portal, int32(0))
+const sync = () => frontend('S')
+
+class RawClient {
+  private buffer = Buffer.alloc(0)
+  private messages: RawMessage[] = []
+  private waiters: Array<(msg: RawMessage) => void> = []
+  // pid and secret from BackendKeyData
+  pid = 0
+  secret = 0
+
+  private constructor(private socket: Socket) {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk])
+      while (this.buffer.length >= 5) {
+        const len = this.buffer.readInt32BE(1)
+        if (this.buffer.length < 1 + len) break
+        const msg = {
+          type: String.fromCharCode(this.buffer[0]),
+          body: this.buffer.subarray(5, 1 + len),
+        }
+        this.buffer = this.buffer.subarray(1 + len)
+        const waiter = this.waiters.shift()
+        if (waiter) waiter(msg)
+        else this.messages.push(msg)
+      }
+    })
+  }
+
+  static async connect(port: number): Promise<RawClient> {
+    const client = await RawClient.open(port)
+    const keyData = (await client.untilReady()).find((m) => m.type === 'K')
+    if (keyData) {
+      client.pid = keyData.body.readInt32BE(0)
+      client.secret = keyData.body.readInt32BE(4)
+    }
+    return client
+  }
+
+  // send the startup message and authenticate, without waiting for the server
+  // to be ready
+  static async open(
+    port: number,
+    params: Record<string, string> = { user: 'user', database: 'postgres' },
+    password = 'password'
+  ): Promise<RawClient> {
+    const socket = createConnection({ port, host: '127.0.0.1' })
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve)
+      socket.once('error', reject)
+    })
+    const client = new RawClient(socket)
+    const startup = Buffer.from(
+      Object.entries(params)
+        .map(([name, value]) => `${name}\0${value}\0`)
+        .join('') + '\0'
+    )
+    socket.write(Buffer.concat([int32(8 + startup.length), int32(196608), startup]))
+    await client.authenticate(password)
+    return client
+  }
+
+  // answer cleartext or SCRAM-SHA-256 authentication
+  private async authenticate(password: string) {
+    const request = await this.next()
+    if (request.body.readInt32BE(0) === 3) {
+      this.send(frontend('p', password))
+      return
+    }
+
+    const nonce = randomBytes(18).toString('base64')
+    const clientFirst = `n=*,r=${nonce}`
+    this.send(
+      frontend(
+        'p',
+        'SCRAM-SHA-256',
+        int32(clientFirst.length + 3),
+        Buffer.from(`n,,${clientFirst}`)
+      )
+    )
+    const serverFirst = (await this.next()).body.subarray(4).toString()
+    const fields = new Map(serverFirst.split(',').map((f) => [f[0], f.slice(2)]))
+    const salted = pbkdf2Sync(
+      password,
+      Buffer.from(fields.get('s')!, 'base64'),
+      Number(fields.get('i')),
+      32,
+      'sha256'
+    )
+    const clientKey = createHmac('sha256', salted).update('Client Key').digest()
+    const storedKey = createHash('sha256').update(clientKey).digest()
+    const clientFinal = `c=biws,r=${fields.get('r')}`
+    const signature = createHmac('sha256', storedKey)
+      .update(`${clientFirst},${serverFirst},${clientFinal}`)
+      .digest()
+    const proof = clientKey.map((byte, i) => byte ^ signature[i])
+    this.send(frontend('p', Buffer.from(`${clientFinal},p=${proof.toString('base64')}`)))
+    await this.next() // AuthenticationSASLFinal
+  }
+
+  query(sql: string): Promise<RawMessage[]> {
+    this.send(frontend('Q', sql))
+    return this.untilReady()
+  }
+
+  send(...messages: Buffer[]) {
+    this.socket.write(Buffer.concat(messages))
+  }
+
+  next(): Promise<RawMessage> {
+    const queued = this.messages.shift()
+    if (queued) return Promise.resolve(queued)
+    return new Promise((resolve) => this.waiters.push(resolve))
+  }
+
+  async untilReady(): Promise<RawMessage[]> {
+    const received: RawMessage[] = []
+    while (true) {
+      const msg = await this.next()
+      received.push(msg)
+      if (msg.type === 'Z') return received
+    }
+  }
+
+  close() {
+    this.socket.destroy()
+  }
+}
+
+// text of the first column of every DataRow
+function dataRows(messages: RawMessage[]): string[] {
+  return messages
+    .filter((m) => m.type === 'D')
+    .map((m) => m.body.subarray(6, 6 + m.body.readInt32BE(2)).toString())
+}
+
+describe('pg-proxy', () => {
+  let db: PGlite
+  let server: Server
+  let clients: postgres.Sql[]
+
+  async function start(overrides: Partial<ZeroLiteConfig> = {}) {
+    server = await startPgProxy(db, { ...getConfig(), pgPort: 0, ...overrides })
+  }
+
+  function connect(options: postgres.Options<{}> = {}) {
+    const sql = postgres({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      user: 'user',
+      password: 'password',
+      database: 'postgres',
+      max: 1,
+      onnotice: () => {},
+      ...options,
+    })
+    clients.push(sql)
+    return sql
+  }
+
+  beforeEach(async () => {
+    db = new PGlite()
+    await db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, source TEXT)')
+    clients = []
+  })
+
+  afterEach(async () => {
+    await Promise.all(clients.map((c) => c.end({ timeout: 1 }).catch(() => {})))
+    server?.close()
+    await db.close()
+  })
+
+  describe('transaction locking', () => {
+    it('keeps other connections out of an open transaction', async () => {
+      await start()
+      const a = connect()
+      const b = connect()
+
+      let releaseA!: () => void
+      const aWaiting = new Promise<void>((r) => (releaseA = r))
+      let aInserted!: () => void
+      const aStarted = new Promise<void>((r) => (aInserted = r))
+
+      const txA = a
+        .begin(async (tx) => {
+          await tx`INSERT INTO items VALUES (1, 'a')`
+          aInserted()
+          await aWaiting
+          throw new Error('rollback')
+        })
+        .catch(() => {})
+
+      await aStarted
+      let bDone = false
+      const insertB = b`INSERT INTO items VALUES (2, 'b')`.then(() => {
+        bDone = true
+      })
+
+      // b must wait for a's transaction instead of running inside it
+      await new Promise((r) => setTimeout(r, 100))
+      expect(bDone).toBe(false)
+
+      releaseA()
+      await txA
+      await insertB
+
+      const rows = await db.query<{ id: number }>('SELECT id FROM items ORDER BY id')
+      expect(rows.rows.map((r) => r.id)).toEqual([2])
+    })
+
+    it('serializes concurrent transactions from many connections', async () => {
+      await start()
+      const conns = [connect(), connect(), connect()]
+
+      await Promise.all(
+        conns.map((sql, i) =>
+          sql.begin(async (tx) => {
+            for (let j = 0; j < 5; j++) {
+              const id = i * 10 + j
+              await tx`INSERT INTO items VALUES (${id}, ${String(i)})`
+              await new Promise((r) => setTimeout(r, 5))
+            }
+          })
+        )
+      )
+
+      const count = await db.query<{ n: number }>('SELECT count(*)::int AS n FROM items')
+      expect(count.rows[0].n).toBe(15)
+    })
+
+    it('aborts transactions idle longer than the timeout', async () => {
+      await start({ idleInTransactionTimeout: 200 })
+      const a = connect()
+      const b = connect()
+
+      await a`BEGIN`
+      await a`INSERT INTO items VALUES (1, 'a')`
+
+      // b gets the instance once a's transaction is aborted
+      await b`INSERT INTO items VALUES (2, 'b')`
+      const rows = await db.query<{ id: number }>('SELECT id FROM items ORDER BY id')
+      expect(rows.rows.map((r) => r.id)).toEqual([2])
+    })
+  })
+
+  describe('prepared statement namespaces', () => {
+    it('keeps same-named statements from different connections apart', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = await RawClient.connect(port)
+
+      a.send(parse('s1', "SELECT 'from a'"), sync())
+      await a.untilReady()
+      b.send(parse('s1', "SELECT 'from b'"), sync())
+      const parsed = await b.untilReady()
+      expect(parsed.map((m) => m.type).filter((t) => t !== 'N')).toEqual(['1', 'Z'])
+
+      a.send(bind('p1', 's1'), execute('p1'), sync())
+      b.send(bind('p1', 's1'), execute('p1'), sync())
+      expect(dataRows(await a.untilReady())).toEqual(['from a'])
+      expect(dataRows(await b.untilReady())).toEqual(['from b'])
+
+      a.close()
+      b.close()
+    })
+
+    it('deallocates statements when the connection closes', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      a.send(parse('s1', 'SELECT 1'), parse('s2', 'SELECT 2'), sync())
+      await a.untilReady()
+
+      const count = () =>
+        db
+          .query<{ n: number }>('SELECT count(*)::int AS n FROM pg_prepared_statements')
+          .then((r) => r.rows[0].n)
+      expect(await count()).toBe(2)
+
+      a.close()
+      await new Promise((r) => setTimeout(r, 100))
+      expect(await count()).toBe(0)
+    })
+
+    it('limits DISCARD ALL and DEALLOCATE ALL to the connection', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = await RawClient.connect(port)
+      for (const client of [a, b]) {
+        client.send(parse('s1', 'SELECT 1'), sync())
+        await client.untilReady()
+      }
+      const tags = (messages: RawMessage[]) =>
+        messages.filter((m) => m.type === 'C').map((m) => m.body.toString().slice(0, -1))
+
+      expect(tags(await a.query('DEALLOCATE ALL'))).toEqual(['DEALLOCATE ALL'])
+      a.send(bind('p1', 's1'), execute('p1'), sync())
+      const failed = await a.untilReady()
+      expect(failed.map((m) => m.type).filter((t) => t !== 'N')).toEqual(['E', 'Z'])
+      b.send(bind('p1', 's1'), execute('p1'), sync())
+      expect(dataRows(await b.untilReady())).toEqual(['1'])
+
+      await a.query(`SET search_path = pg_catalog; CREATE TEMP TABLE scratch_a (id INT)`)
+      await b.query(`SET search_path = pg_catalog; CREATE TEMP TABLE scratch_b (id INT)`)
+      expect(tags(await a.query('DISCARD ALL'))).toEqual(['DISCARD ALL'])
+      expect(dataRows(await a.query('SHOW search_path'))).toEqual(['public'])
+      expect(dataRows(await b.query('SHOW search_path'))).toEqual(['pg_catalog'])
+      const temps = await b.query(
+        `SELECT relname FROM pg_class WHERE relnamespace = pg_my_temp_schema() AND relkind = 'r'`
+      )
+      expect(dataRows(temps)).toEqual(['scratch_b'])
+      b.send(bind('p1', 's1'), execute('p1'), sync())
+      expect(dataRows(await b.untilReady())).toEqual(['1'])
+
+      a.close()
+      b.close()
+    })
+  })
+
+  describe('session state', () => {
+    it('keeps search_path per connection', async () => {
+      await db.exec(`
+        CREATE SCHEMA tenant_a; CREATE TABLE tenant_a.t (v TEXT); INSERT INTO tenant_a.t VALUES ('a');
+        CREATE SCHEMA tenant_b; CREATE TABLE tenant_b.t (v TEXT); INSERT INTO tenant_b.t VALUES ('b');
+      `)
+      await start()
+      const a = connect()
+      const b = connect()
+
+      await a.unsafe('SET search_path = tenant_a')
+      await b.unsafe('SET search_path = tenant_b')
+      for (let i = 0; i < 3; i++) {
+        expect((await a`SELECT v FROM t`)[0].v).toBe('a')
+        expect((await b`SELECT v FROM t`)[0].v).toBe('b')
+      }
+
+      // connections that never changed anything see the original session
+      const c = connect()
+      expect((await c`SHOW search_path`)[0].search_path).toBe('public')
+    })
+
+    it("keeps a connection's settings out of orez's own work", async () => {
+      await installChangeTracking(db)
+      await db.exec('CREATE SCHEMA tenant; CREATE TABLE tenant.items (id INTEGER)')
+      await start()
+      const replica = connect()
+      await replica.unsafe('SET session_replication_role = replica')
+      await replica.unsafe('SET search_path = tenant')
+      await replica`SELECT 1`
+
+      // what orez runs between client queries, like the replication poll
+      expect((await db.query<{ search_path: string }>('SHOW search_path')).rows).toEqual([
+        { search_path: 'public' },
+      ])
+      await db.exec(`INSERT INTO items VALUES (1, 'orez')`)
+      expect(await countChanges(db)).toBe(1)
+
+      // the connection still has its own
+      expect((await replica`SHOW session_replication_role`)[0]).toEqual({
+        session_replication_role: 'replica',
+      })
+      await replica`INSERT INTO items VALUES (1)`
+      expect((await db.query('SELECT * FROM tenant.items')).rows).toHaveLength(1)
+    })
+
+    it('drops temp tables when their connection closes', async () => {
+      await start()
+      const a = connect()
+      const b = connect()
+      await a`CREATE TEMP TABLE scratch_a (id INT)`
+      await b`CREATE TEMP TABLE scratch_b (id INT)`
+
+      await a.end()
+      await new Promise((r) => setTimeout(r, 100))
+
+      const temps = await db.query<{ relname: string }>(
+        `SELECT relname FROM pg_class WHERE relnamespace = pg_my_temp_schema() AND relkind = 'r'`
+      )
+      expect(temps.rows.map((r) => r.relname)).toEqual(['scratch_b'])
+    })
+
+    it('records the writer of each change while history is kept', async () => {
+      await installChangeTracking(db, 'row', { hours: 1 })
+      await start()
+      const worker = connect({ connection: { application_name: 'worker' } })
+      const other = connect()
+
+      await worker`INSERT INTO items VALUES (1, 'worker')`
+      await other`INSERT INTO items VALUES (2, 'other')`
+      await worker.unsafe(`SET application_name = 'renamed'`)
+      await worker`UPDATE items SET source = 'renamed' WHERE id = 1`
+      // outside the proxy, nobody to attribute it to
+      await db.exec(`INSERT INTO items VALUES (3, 'direct')`)
+
+      const changes = await db.query<{
+        connection_id: number | null
+        application_name: string | null
+      }>(
+        `SELECT connection_id, application_name FROM _orez._zero_changes ORDER BY watermark`
+      )
+      const [fromWorker, fromOther, renamed, direct] = changes.rows
+      expect(fromWorker.application_name).toBe('worker')
+      expect(fromOther.application_name).toBe('postgres.js')
+      expect(fromOther.connection_id).not.toBe(fromWorker.connection_id)
+      expect(renamed).toEqual({
+        connection_id: fromWorker.connection_id,
+        application_name: 'renamed',
+      })
+      expect(direct).toEqual({ connection_id: null, application_name: null })
+    })
+  })
+
+  describe('advisory locks', () => {
+    it('blocks until the holder unlocks', async () => {
+      await start()
+      const a = connect()
+      const b = connect()
+
+      await a`SELECT pg_advisory_lock(42)`
+      let bLocked = false
+      const lockB = b`SELECT pg_advisory_lock(${42})`.then(() => {
+        bLocked = true
+      })
+
+      // other statements keep running while b waits
+      await a`INSERT INTO items VALUES (1, 'a')`
+      await new Promise((r) => setTimeout(r, 100))
+      expect(bLocked).toBe(false)
+
+      const [unlocked] = await a`SELECT pg_advisory_unlock(42)`
+      expect(unlocked.pg_advisory_unlock).toBe(true)
+      await lockB
+      expect(bLocked).toBe(true)
+    })
+
+    it('answers try-locks from the shared lock table', async () => {
+      await start()
+      const a = connect()
+      const b = connect()
+
+      const [first] = await a`SELECT pg_try_advisory_lock(1, 2)`
+      expect(first.pg_try_advisory_lock).toBe(true)
+      const [second] = await b`SELECT pg_try_advisory_lock(${1}, ${2})`
+      expect(second.pg_try_advisory_lock).toBe(false)
+      // one bigint key is a different lock than two int keys
+      const [other] = await b`SELECT pg_try_advisory_lock(2)`
+      expect(other.pg_try_advisory_lock).toBe(true)
+      // b doesn't hold (1, 2), so it can't unlock it
+      const [unlock] = await b`SELECT pg_advisory_unlock(1, 2)`
+      expect(unlock.pg_advisory_unlock).toBe(false)
+
+      // shared locks only conflict with exclusive ones
+      await a`SELECT pg_advisory_lock_shared(7)`
+      const [shared] = await b`SELECT pg_try_advisory_lock_shared(7)`
+      expect(shared.pg_try_advisory_lock_shared).toBe(true)
+      const [exclusive] = await b`SELECT pg_try_advisory_lock(7)`
+      expect(exclusive.pg_try_advisory_lock).toBe(false)
+    })
+
+    it('releases session locks when the holder disconnects', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = connect()
+
+      await a.query('SELECT pg_advisory_lock(5)')
+      const lockB = b`SELECT pg_advisory_lock(5)`.execute()
+      await new Promise((r) => setTimeout(r, 50))
+      a.close()
+      await lockB
+      const [again] = await b`SELECT pg_try_advisory_lock(5)`
+      expect(again.pg_try_advisory_lock).toBe(true)
+    })
+
+    it('releases transaction locks when the transaction ends', async () => {
+      await start()
+      const a = connect()
+      const b = connect()
+
+      await a.begin(async (tx) => {
+        await tx`SELECT pg_advisory_xact_lock(9)`
+        const [held] = await tx`SELECT pg_try_advisory_xact_lock(9)`
+        expect(held.pg_try_advisory_xact_lock).toBe(true)
+      })
+      const [free] = await b`SELECT pg_try_advisory_xact_lock(9)`
+      expect(free.pg_try_advisory_xact_lock).toBe(true)
+      // and it was released again at the end of b's implicit transaction
+      const [stillFree] = await a`SELECT pg_try_advisory_lock(9)`
+      expect(stillFree.pg_try_advisory_lock).toBe(true)
+    })
+
+    it('detects deadlocks', async () => {
+      await start()
+      const a = connect()
+      const b = connect()
+
+      await a`SELECT pg_advisory_lock(1)`
+      await b`SELECT pg_advisory_lock(2)`
+      const lockA = a`SELECT pg_advisory_lock(2)`.execute()
+      await new Promise((r) => setTimeout(r, 50))
+
+      await expect(b`SELECT pg_advisory_lock(1)`).rejects.toMatchObject({
+        code: '40P01',
+      })
+      await b`SELECT pg_advisory_unlock(2)`
+      await lockA
+    })
+  })
+
+  describe('cancellation', () => {
+    // send a CancelRequest on a connection of its own, like drivers do
+    async function sendCancel(pid: number, secret: number) {
+      const port = (server.address() as AddressInfo).port
+      const socket = createConnection({ port, host: '127.0.0.1' })
+      await new Promise<void>((resolve) => socket.once('connect', resolve))
+      socket.write(Buffer.concat([int32(16), int32(80877102), int32(pid), int32(secret)]))
+      await new Promise((resolve) => socket.once('close', resolve))
+    }
+
+    it('hands out a cancel key matching pg_backend_pid()', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = await RawClient.connect(port)
+      expect(a.pid).toBeGreaterThan(0)
+      expect(b.pid).not.toBe(a.pid)
+      expect(dataRows(await a.query('SELECT pg_backend_pid()'))).toEqual([String(a.pid)])
+      a.close()
+      b.close()
+    })
+
+    it('cancels a query queued behind another transaction', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = connect()
+      await b`SELECT 1`
+
+      await a.query('BEGIN')
+      await a.query("INSERT INTO items VALUES (1, 'a')")
+      const queued = b`SELECT count(*) FROM items`.execute()
+      await new Promise((r) => setTimeout(r, 50))
+      queued.cancel()
+      await expect(queued).rejects.toMatchObject({ code: '57014' })
+
+      // the holder carries on, and so does the canceled connection
+      await a.query('COMMIT')
+      const [row] = await b`SELECT count(*)::int AS n FROM items`
+      expect(row.n).toBe(1)
+      a.close()
+    })
+
+    it('cancels a wait for an advisory lock', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = await RawClient.connect(port)
+
+      await a.query('SELECT pg_advisory_lock(3)')
+      b.send(frontend('Q', 'SELECT pg_advisory_lock(3)'))
+      await new Promise((r) => setTimeout(r, 50))
+      // a wrong secret is ignored
+      await sendCancel(b.pid, b.secret + 1)
+      await sendCancel(b.pid, b.secret)
+      const response = await b.untilReady()
+      const error = response.find((m) => m.type === 'E')
+      expect(error?.body.toString()).toContain('57014')
+      expect(response.at(-1)?.body.toString()).toBe('I')
+
+      // a still holds the lock, and b is no longer queued for it
+      expect(dataRows(await b.query('SELECT pg_try_advisory_lock(3)'))).toEqual(['f'])
+      expect(dataRows(await a.query('SELECT pg_advisory_unlock(3)'))).toEqual(['t'])
+      a.close()
+      b.close()
+    })
+
+    it('ignores a cancel for an idle connection', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      await sendCancel(a.pid, a.secret)
+      expect(dataRows(await a.query('SELECT 1'))).toEqual(['1'])
+      a.close()
+    })
+
+    it('enforces statement_timeout on waits', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = connect()
+      const c = postgres({
+        host: '127.0.0.1',
+        port,
+        user: 'user',
+        password: 'password',
+        database: 'postgres',
+        max: 1,
+        onnotice: () => {},
+        connection: { statement_timeout: 100 },
+      })
+      clients.push(c)
+      await b`SET statement_timeout = 100`
+      await c`SELECT 1`
+
+      await a.query('BEGIN')
+      await a.query("INSERT INTO items VALUES (1, 'a')")
+      await expect(b`SELECT count(*) FROM items`).rejects.toMatchObject({
+        code: '57014',
+        message: 'canceling statement due to statement timeout',
+      })
+      await expect(c`SELECT count(*) FROM items`).rejects.toMatchObject({
+        code: '57014',
+      })
+
+      // a connection without a timeout waits for the holder
+      const d = connect()
+      const queued = d`SELECT count(*)::int AS n FROM items`.execute()
+      await new Promise((r) => setTimeout(r, 200))
+      await a.query('COMMIT')
+      const [row] = await queued
+      expect(row.n).toBe(1)
+      a.close()
+    })
+  })
+
+  describe('users and roles', () => {
+    const users = [
+      { name: 'alice', password: 'alice-pw' },
+      { name: 'bob', password: 'bob-pw', role: 'member' },
+    ]
+
+    function connectAs(user: string, password: string) {
+      const sql = postgres({
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        user,
+        password,
+        database: 'postgres',
+        max: 1,
+        onnotice: () => {},
+      })
+      clients.push(sql)
+      return sql
+    }
+
+    beforeEach(async () => {
+      await ensureUserRoles(db, { ...getConfig(), users })
+      await db.exec(`
+        CREATE TABLE notes (id INTEGER PRIMARY KEY, owner TEXT);
+        INSERT INTO notes VALUES (1, 'alice'), (2, 'member'), (3, 'carol');
+        ALTER TABLE notes ENABLE ROW LEVEL SECURITY;
+        CREATE POLICY own_notes ON notes USING (owner = current_user);
+        GRANT SELECT ON notes TO alice, member;
+      `)
+    })
+
+    it('authenticates every configured user with scram-sha-256', async () => {
+      await start({ users })
+      const port = (server.address() as AddressInfo).port
+      const raw = await RawClient.connect(port)
+      expect(dataRows(await raw.query('SELECT 1'))).toEqual(['1'])
+      raw.close()
+
+      const [row] = await connectAs('alice', 'alice-pw')`SELECT current_user AS name`
+      expect(row.name).toBe('alice')
+      await expect(connectAs('alice', 'bob-pw')`SELECT 1`).rejects.toThrow(
+        /authentication failed/
+      )
+      await expect(connectAs('mallory', 'password')`SELECT 1`).rejects.toThrow(
+        /authentication failed/
+      )
+    })
+
+    it('accepts cleartext passwords when configured', async () => {
+      await start({ users, pgAuthMethod: 'password' })
+      const [row] = await connectAs('bob', 'bob-pw')`SELECT current_user AS name`
+      expect(row.name).toBe('member')
+      await expect(connectAs('bob', 'alice-pw')`SELECT 1`).rejects.toThrow(
+        /authentication failed/
+      )
+    })
+
+    it('applies grants and row-level security per connection', async () => {
+      await start({ users })
+      const owner = connect()
+      const alice = connectAs('alice', 'alice-pw')
+      const bob = connectAs('bob', 'bob-pw')
+
+      // interleaved on the shared session, each runs as its own role
+      const [all, aliceRows, bobRows] = await Promise.all([
+        owner`SELECT id FROM notes ORDER BY id`,
+        alice`SELECT id FROM notes ORDER BY id`,
+        bob`SELECT id FROM notes ORDER BY id`,
+      ])
+      expect(all.map((r) => r.id)).toEqual([1, 2, 3])
+      expect(aliceRows.map((r) => r.id)).toEqual([1])
+      expect(bobRows.map((r) => r.id)).toEqual([2])
+
+      await expect(alice`INSERT INTO notes VALUES (4, 'alice')`).rejects.toThrow(
+        /permission denied/
+      )
+      await expect(alice`SET ROLE member`).rejects.toThrow(/permission denied/)
+      await expect(
+        alice`SELECT set_config('session_authorization', 'postgres', false)`
+      ).rejects.toThrow(/permission denied/)
+      expect((await alice`SELECT current_user AS name`)[0].name).toBe('alice')
+
+      // oreZ's own queries run as the superuser in between
+      const [{ name }] = (await db.query<{ name: string }>('SELECT current_user AS name'))
+        .rows
+      expect(name).toBe('postgres')
+    })
+
+    it('refuses restricted logins replication and other databases', async () => {
+      await start({ users, pgAuthMethod: 'password' })
+      const port = (server.address() as AddressInfo).port
+      const refusal = async (params: Record<string, string>, query?: string) => {
+        const raw = await RawClient.open(port, params, 'alice-pw')
+        if (query) raw.send(frontend('Q', query))
+        const messages: RawMessage[] = []
+        do messages.push(await raw.next())
+        while (messages.at(-1)!.type !== 'E')
+        raw.close()
+        // the error's fields are type byte + null-terminated value
+        const fields = messages.at(-1)!.body.toString().split('\0')
+        return fields.find((f) => f.startsWith('C'))!.slice(1)
+      }
+
+      // replication runs as the superuser, past the login's grants
+      expect(
+        await refusal(
+          { user: 'alice', database: 'postgres', replication: 'database' },
+          "INSERT INTO notes VALUES (4, 'alice')"
+        )
+      ).toBe('42501')
+      // zero's own databases would run it as the superuser too
+      expect(
+        await refusal(
+          { user: 'alice', database: 'zero_cvr' },
+          "INSERT INTO notes VALUES (5, 'alice')"
+        )
+      ).toBe('42501')
+      await new Promise((r) => setTimeout(r, 100))
+      expect((await db.query('SELECT * FROM notes')).rows).toHaveLength(3)
+    })
+
+    it('goes back to the login role on RESET ROLE', async () => {
+      await start({ users })
+      await db.exec('GRANT member TO alice')
+      const alice = connectAs('alice', 'alice-pw')
+      await alice`SET ROLE member`
+      await connect()`SELECT 1`
+      expect((await alice`SELECT current_user AS name`)[0].name).toBe('member')
+      await alice`RESET ROLE`
+      await connect()`SELECT 1`
+      expect((await alice`SELECT current_user AS name`)[0].name).toBe('alice')
+    })
+  })
+
+  describe('databases', () => {
+    let dataDir: string
+    let instances: PGliteInstances
+
+    beforeEach(() => {
+      dataDir = mkdtempSync(join(tmpdir(), 'orez-databases-'))
+      instances = { postgres: db, cvr: db, cdb: db, databases: new Map() }
+    })
+
+    afterEach(async () => {
+      await Promise.all([...instances.databases.values()].map((d) => d.close()))
+      rmSync(dataDir, { recursive: true, force: true })
+    })
+
+    async function startWithDatabases() {
+      server = await startPgProxy(instances, { ...getConfig(), pgPort: 0, dataDir })
+    }
+
+    function connectTo(database: string) {
+      const sql = postgres({
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        user: 'user',
+        password: 'password',
+        database,
+        max: 1,
+        onnotice: () => {},
+      })
+      clients.push(sql)
+      return sql
+    }
+
+    it('creates a database with an instance of its own', async () => {
+      await startWithDatabases()
+      const sql = connect()
+      await sql.unsafe('CREATE DATABASE worker_1')
+      expect(existsSync(join(dataDir, 'pgdata-worker_1'))).toBe(true)
+      await expect(sql.unsafe('CREATE DATABASE worker_1')).rejects.toThrow(
+        /already exists/
+      )
+      await expect(sql.unsafe('CREATE DATABASE zero_cvr')).rejects.toThrow(
+        /already exists/
+      )
+
+      const worker = connectTo('worker_1')
+      await worker`CREATE TABLE items (id INTEGER PRIMARY KEY, source TEXT)`
+      await worker`INSERT INTO items VALUES (1, 'worker')`
+      expect(await worker`SELECT source FROM items`).toEqual([{ source: 'worker' }])
+      expect(await sql`SELECT count(*)::int AS n FROM items`).toEqual([{ n: 0 }])
+
+      // simple query protocol, and not inside a transaction
+      const raw = await RawClient.connect((server.address() as AddressInfo).port)
+      const created = await raw.query('CREATE DATABASE "worker_2";')
+      expect(created.map((m) => m.type)).toEqual(['C', 'Z'])
+      expect(instances.databases.has('worker_2')).toBe(true)
+      raw.close()
+      await expect(
+        sql.begin((tx) => tx.unsafe('CREATE DATABASE worker_3'))
+      ).rejects.toThrow(/cannot run inside a transaction block/)
+    })
+
+    it('drops a database once nobody uses it, or by force', async () => {
+      await startWithDatabases()
+      const sql = connect()
+      await sql.unsafe('CREATE DATABASE worker_1')
+      const worker = connectTo('worker_1')
+      await worker`SELECT 1`
+
+      await expect(sql.unsafe('DROP DATABASE worker_1')).rejects.toThrow(
+        /being accessed by other users/
+      )
+      await expect(worker.unsafe('DROP DATABASE worker_1')).rejects.toThrow(
+        /currently open database/
+      )
+      await sql.unsafe('DROP DATABASE worker_1 WITH (FORCE)')
+      await expect(worker`SELECT 1`).rejects.toThrow()
+      expect(instances.databases.has('worker_1')).toBe(false)
+      expect(existsSync(join(dataDir, 'pgdata-worker_1'))).toBe(false)
+
+      await expect(sql.unsafe('DROP DATABASE worker_1')).rejects.toThrow(/does not exist/)
+      await sql.unsafe('DROP DATABASE IF EXISTS worker_1')
+      await expect(sql.unsafe('DROP DATABASE postgres')).rejects.toThrow(
+        /can't be dropped/
+      )
+    })
+
+    it('locks the instance that replaced another', async () => {
+      instances.cvr = new PGlite()
+      const replaced = instances.cvr
+      await startWithDatabases()
+      const sql = connectTo('zero_cvr')
+      await sql`SELECT 1`
+
+      // like a zero state reset or recovery does
+      instances.cvr = new PGlite()
+      const mutex = getInstanceMutex(instances.cvr)
+      await mutex.acquire()
+      try {
+        let done = false
+        const query = sql`SELECT 1`.then(() => (done = true))
+        await new Promise((r) => setTimeout(r, 200))
+        expect(done).toBe(false)
+        mutex.release()
+        await query
+      } finally {
+        await Promise.all([replaced.close(), instances.cvr.close()])
+      }
+    })
+  })
+
+  describe('tls', () => {
+    let dataDir: string
+
+    beforeEach(() => {
+      dataDir = mkdtempSync(join(tmpdir(), 'orez-tls-'))
+    })
+
+    afterEach(() => {
+      rmSync(dataDir, { recursive: true, force: true })
+    })
+
+    function connectTls(ca: string | false) {
+      const sql = postgres({
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        user: 'user',
+        password: 'password',
+        database: 'postgres',
+        max: 1,
+        onnotice: () => {},
+        ssl: ca && { ca },
+      })
+      clients.push(sql)
+      return sql
+    }
+
+    it('serves a generated certificate kept in the data dir', async () => {
+      await start({ dataDir, pgTls: true })
+      const cert = readFileSync(join(dataDir, 'tls-cert.pem'), 'utf-8')
+      expect(new X509Certificate(cert).subjectAltName).toContain('IP Address:127.0.0.1')
+
+      // verified against the certificate, and plaintext still works
+      const [row] = await connectTls(cert)`SELECT 1 AS n`
+      expect(row.n).toBe(1)
+      const [plain] = await connectTls(false)`SELECT 2 AS n`
+      expect(plain.n).toBe(2)
+
+      // reused on the next start
+      server.close()
+      await start({ dataDir, pgTls: true })
+      expect(readFileSync(join(dataDir, 'tls-cert.pem'), 'utf-8')).toBe(cert)
+      await connectTls(cert)`SELECT 1`
+    })
+
+    it('uses a configured certificate and key', async () => {
+      const { cert, key } = generateSelfSignedCert()
+      writeFileSync(join(dataDir, 'cert.pem'), cert)
+      writeFileSync(join(dataDir, 'key.pem'), key)
+      await start({
+        pgTls: true,
+        pgTlsCert: join(dataDir, 'cert.pem'),
+        pgTlsKey: join(dataDir, 'key.pem'),
+      })
+      const [row] = await connectTls(cert)`SELECT 1 AS n`
+      expect(row.n).toBe(1)
+    })
+
+    it('emits sslmode in connection strings', async () => {
+      await start({ dataDir, pgTls: true })
+      const config = getConfig({
+        pgTls: true,
+        pgPort: (server.address() as AddressInfo).port,
+      })
+      const url = getConnectionString(config)
+      expect(url).toMatch(/\?sslmode=require$/)
+      expect(getConnectionString(getConfig())).not.toContain('sslmode')
+
+      const sql = postgres(url, { max: 1, onnotice: () => {} })
+      clients.push(sql)
+      const [row] = await sql`SELECT 1 AS n`
+      expect(row.n).toBe(1)
+    })
+  })
+
+  describe('listen/notify', () => {
+    // channel, payload and sender pid of a NotificationResponse
+    function notification(msg: RawMessage) {
+      expect(msg.type).toBe('A')
+      const channelEnd = msg.body.indexOf(0, 4)
+      return {
+        pid: msg.body.readInt32BE(0),
+        channel: msg.body.subarray(4, channelEnd).toString(),
+        payload: msg.body.subarray(channelEnd + 1, msg.body.length - 1).toString(),
+      }
+    }
+
+    it('delivers notifications to idle listeners with the sender pid', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = await RawClient.connect(port)
+      const c = await RawClient.connect(port)
+      await a.query('LISTEN job_queue')
+
+      await b.query("NOTIFY job_queue, 'from b'")
+      const first = notification(await a.next())
+      expect(first.channel).toBe('job_queue')
+      expect(first.payload).toBe('from b')
+
+      await c.query("SELECT pg_notify('job_queue', 'from c')")
+      const second = notification(await a.next())
+      expect(second.payload).toBe('from c')
+      expect(second.pid).not.toBe(first.pid)
+
+      // the senders aren't listening, so they don't see anything
+      const bResponse = await b.query('SELECT 1')
+      expect(bResponse.some((m) => m.type === 'A')).toBe(false)
+
+      a.close()
+      b.close()
+      c.close()
+    })
+
+    it('works with the postgres driver', async () => {
+      await start()
+      const worker = connect()
+      const app = connect()
+      const received: string[] = []
+      await worker.listen('job_queue', (payload) => received.push(payload))
+
+      await app`SELECT pg_notify('job_queue', 'job-1')`
+      await app.notify('job_queue', 'job-2')
+      await expect.poll(() => received).toEqual(['job-1', 'job-2'])
+    })
+
+    it('delivers after the listener finishes its own transaction', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      await a.query('LISTEN events')
+      await a.query('BEGIN')
+      await a.query("NOTIFY events, 'mine'")
+      const committed = await a.query('COMMIT')
+      const notifications = committed.filter((m) => m.type === 'A').map(notification)
+      expect(notifications.map((n) => n.payload)).toEqual(['mine'])
+      a.close()
+    })
+
+    it('keeps other listeners subscribed after UNLISTEN and disconnect', async () => {
+      await start()
+      const port = (server.address() as AddressInfo).port
+      const a = await RawClient.connect(port)
+      const b = await RawClient.connect(port)
+      const sender = await RawClient.connect(port)
+      await a.query('LISTEN events')
+      await b.query('LISTEN events')
+
+      await a.query('UNLISTEN events')
+      await sender.query("NOTIFY events, 'one'")
+      expect(notification(await b.next()).payload).toBe('one')
+
+      b.close()
+      await new Promise((r) => setTimeout(r, 100))
+      const channels = await db.query<{ c: string }>(
+        'SELECT pg_listening_channels() AS c'
+      )
+      expect(channels.rows).toEqual([])
+
+      // a is still connected and no longer listening
+      await sender.query("NOTIFY events, 'two'")
+      const response = await a.query('SELECT 1')
+      expect(response.some((m) => m.type === 'A')).toBe(false)
+
+      a.close()
+      sender.close()
+    })
+  })
+})
@@ -12,13 +12,54 @@
  * query interleaving that causes CVR concurrent modification errors.
  */
 
+import { randomInt } from 'node:crypto'
 import { createServer, type Server, type Socket } from 'node:net'
 
+import { BackendError } from 'pg-gateway'
 import { fromNodeSocket } from 'pg-gateway/node'
 
+import {
+  advisoryLockKey,
+  findAdvisoryCalls,
+  getAdvisoryLockTable,
+  resolveAdvisoryArg,
+  rewriteAdvisoryCalls,
+  type AdvisoryCall,
+  type AdvisoryLockTable,
+} from './advisory-locks.js'
+import { parseDatabaseCommand, type DatabaseCommand } from './database-commands.js'
 import { log } from './log.js'
-import { Mutex } from './mutex.js'
-import { handleReplicationQuery, handleStartReplication } from './replication/handler.js'
+import { Mutex, getInstanceMutex } from './mutex.js'
+import { guardServer } from './network.js'
+import {
+  NotificationHub,
+  parseListenCommands,
+  quoteChannel,
+  type NotificationListener,
+} from './notifications.js'
+import { createAuthOptions, getLogins } from './pg-users.js'
+import { createDatabase, dropDatabase, isBuiltinDatabase } from './pglite-manager.js'
+import { getChangeHistory } from './replication/change-tracker.js'
+import {
+  createStandbyStatusHandler,
+  handleReplicationQuery,
+  handleStartReplication,
+} from './replication/handler.js'
+import {
+  importSnapshot,
+  parseSnapshotImport,
+  recordSnapshotReads,
+  type ImportedSnapshot,
+} from './replication/snapshots.js'
+import {
+  SessionState,
+  createConnectionSession,
+  detectSessionChanges,
+  parseSessionReset,
+  type SessionReset,
+} from './session-state.js'
+import { SqlError } from './sql-error.js'
+import { loadTlsCredentials } from './tls-cert.js'
 
 import type { ZeroLiteConfig } from './config.js'
 import type { PGliteInstances } from './pglite-manager.js'
@@ -160,7 +201,7 @@ function rebuildSimpleQuery(newQuery: string): Uint8Array {
 /**
  * intercept and rewrite query messages to make pglite look like real postgres.
  */
-function interceptQuery(data: Uint8Array): Uint8Array {
+function interceptQuery(data: Uint8Array, rewrites = QUERY_REWRITES): Uint8Array {
   const msgType = data[0]
 
   if (msgType === 0x51) {
@@ -169,7 +210,7 @@ function interceptQuery(data: Uint8Array): Uint8Array {
     let query = new TextDecoder().decode(data.subarray(5, 1 + len - 1)).replace(/\0$/, '')
 
     let modified = false
-    for (const rw of QUERY_REWRITES) {
+    for (const rw of rewrites) {
       if (rw.match.test(query)) {
         query = query.replace(rw.match, rw.replace)
         modified = true
@@ -186,7 +227,7 @@ function interceptQuery(data: Uint8Array): Uint8Array {
     if (query) {
       let newQuery = query
       let modified = false
-      for (const rw of QUERY_REWRITES) {
+      for (const rw of rewrites) {
         if (rw.match.test(newQuery)) {
           newQuery = newQuery.replace(rw.match, rw.replace)
           modified = true
@@ -204,25 +245,144 @@ function interceptQuery(data: Uint8Array): Uint8Array {
 }
 
 /**
- * check if a query should be intercepted as a no-op.
+ * rewrite the statement/portal names in an extended protocol message into a
+ * per-connection namespace. all connections share one pglite session, so
+ * without this a named statement like "s1" from one client overwrites another
+ * client's. the unnamed statement/portal ('') is left alone since every
+ * message that uses it runs under the connection's instance lock.
  */
-function isNoopQuery(data: Uint8Array): boolean {
-  let query: string | null = null
+function namespaceMessage(data: Uint8Array, prefix: string): Uint8Array {
+  let nameStart: number
+  let nameCount: number
+  switch (data[0]) {
+    case 0x50: // Parse: statement name
+    case 0x45: // Execute: portal name
+      nameStart = 5
+      nameCount = 1
+      break
+    case 0x42: // Bind: portal name, statement name
+      nameStart = 5
+      nameCount = 2
+      break
+    case 0x44: // Describe: 'S'/'P' + name
+    case 0x43: // Close: 'S'/'P' + name
+      nameStart = 6
+      nameCount = 1
+      break
+    default:
+      return data
+  }
+
+  const decoder = new TextDecoder()
+  const names: string[] = []
+  let offset = nameStart
+  for (let i = 0; i < nameCount; i++) {
+    const start = offset
+    while (offset < data.length && data[offset] !== 0) offset++
+    names.push(decoder.decode(data.subarray(start, offset)))
+    offset++
+  }
+  if (names.every((n) => n === '')) return data
+
+  const encoder = new TextEncoder()
+  const nameBytes = names.map((n) => encoder.encode(n ? prefix + n : ''))
+  const suffix = data.subarray(offset)
+  const namesLen = nameBytes.reduce((sum, b) => sum + b.length + 1, 0)
+  const result = new Uint8Array(nameStart + namesLen + suffix.length)
+  result.set(data.subarray(0, nameStart), 0)
+  new DataView(result.buffer).setInt32(1, result.length - 1)
+  let pos = nameStart
+  for (const b of nameBytes) {
+    result.set(b, pos)
+    pos += b.length
+    result[pos++] = 0
+  }
+  result.set(suffix, pos)
+  return result
+}
+
+/**
+ * extract the statement name from a Parse (0x50) or Close-statement (0x43 'S') message.
+ * returns null for other messages.
+ */
+function extractStatementName(data: Uint8Array): string | null {
+  let offset: number
+  if (data[0] === 0x50) offset = 5
+  else if (data[0] === 0x43 && data[5] === 0x53) offset = 6
+  else return null
+  const start = offset
+  while (offset < data.length && data[offset] !== 0) offset++
+  return new TextDecoder().decode(data.subarray(start, offset))
+}
+
+/**
+ * build Close messages for prepared statements followed by a Sync.
+ * closing a statement that doesn't exist is not an error.
+ */
+function buildCloseStatements(names: Iterable<string>): Uint8Array {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  for (const name of names) {
+    const nameBytes = encoder.encode(name)
+    const msg = new Uint8Array(1 + 4 + 1 + nameBytes.length + 1)
+    msg[0] = 0x43 // 'C'
+    new DataView(msg.buffer).setInt32(1, msg.length - 1)
+    msg[5] = 0x53 // 'S'
+    msg.set(nameBytes, 6)
+    parts.push(msg)
+  }
+  const sync = new Uint8Array([0x53, 0, 0, 0, 4])
+  parts.push(sync)
+
+  const total = parts.reduce((sum, p) => sum + p.length, 0)
+  const result = new Uint8Array(total)
+  let pos = 0
+  for (const p of parts) {
+    result.set(p, pos)
+    pos += p.length
+  }
+  return result
+}
+
+/**
+ * build a Close message for a portal. closing a portal that doesn't exist is
+ * not an error.
+ */
+function buildClosePortal(name: string): Uint8Array {
+  const nameBytes = new TextEncoder().encode(name)
+  const msg = new Uint8Array(1 + 4 + 1 + nameBytes.length + 1)
+  msg[0] = 0x43 // 'C'
+  new DataView(msg.buffer).setInt32(1, msg.length - 1)
+  msg[5] = 0x50 // 'P'
+  msg.set(nameBytes, 6)
+  return msg
+}
+
+/**
+ * extract query text from a Simple Query (0x51) or Parse (0x50) message.
+ */
+function extractQueryText(data: Uint8Array): string | null {
   if (data[0] === 0x51) {
     const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
     const len = view.getInt32(1)
-    query = new TextDecoder().decode(data.subarray(5, 1 + len - 1)).replace(/\0$/, '')
-  } else if (data[0] === 0x50) {
-    query = extractParseQuery(data)
+    return new TextDecoder().decode(data.subarray(5, 1 + len - 1)).replace(/\0$/, '')
   }
+  return extractParseQuery(data)
+}
+
+/**
+ * check if a query should be intercepted as a no-op.
+ */
+function isNoopQuery(data: Uint8Array): boolean {
+  const query = extractQueryText(data)
   if (!query) return false
-  return NOOP_QUERY_PATTERNS.some((p) => p.test(query!))
+  return NOOP_QUERY_PATTERNS.some((p) => p.test(query))
 }
 
 /**
  * build a synthetic "SET" command complete response.
  */
-function buildSetCompleteResponse(): Uint8Array {
+function buildSetCompleteResponse(txStatus: TransactionStatus): Uint8Array {
   const encoder = new TextEncoder()
   const tag = encoder.encode('SET\0')
   const cc = new Uint8Array(1 + 4 + tag.length)
@@ -233,7 +393,7 @@ function buildSetCompleteResponse(): Uint8Array {
   const rfq = new Uint8Array(6)
   rfq[0] = 0x5a
   new DataView(rfq.buffer).setInt32(1, 5)
-  rfq[5] = 0x54 // 'T' = in transaction
+  rfq[5] = txStatus.charCodeAt(0)
 
   const result = new Uint8Array(cc.length + rfq.length)
   result.set(cc, 0)
@@ -251,6 +411,41 @@ function buildParseCompleteResponse(): Uint8Array {
   return pc
 }
 
+/**
+ * build a message without a body, like BindComplete or NoData.
+ */
+function buildEmptyMessage(type: number): Uint8Array {
+  const msg = new Uint8Array(5)
+  msg[0] = type
+  new DataView(msg.buffer).setInt32(1, 4)
+  return msg
+}
+
+/**
+ * build a CommandComplete message (type 'C', 0x43) with the given tag.
+ */
+function buildCommandComplete(tag: string): Uint8Array {
+  const tagBytes = new TextEncoder().encode(tag + '\0')
+  const msg = new Uint8Array(5 + tagBytes.length)
+  msg[0] = 0x43
+  new DataView(msg.buffer).setInt32(1, 4 + tagBytes.length)
+  msg.set(tagBytes, 5)
+  return msg
+}
+
+/**
+ * read the 'S'/'P' kind and name a Describe (0x44) or Close (0x43) message
+ * targets.
+ */
+function extractTarget(data: Uint8Array): { kind: 'S' | 'P'; name: string } {
+  let offset = 6
+  while (offset < data.length && data[offset] !== 0) offset++
+  return {
+    kind: data[5] === 0x53 ? 'S' : 'P',
+    name: new TextDecoder().decode(data.subarray(6, offset)),
+  }
+}
+
 /** read a big-endian int32 from a Uint8Array at the given offset */
 function readInt32BE(data: Uint8Array, offset: number): number {
   return (
@@ -261,6 +456,321 @@ function readInt32BE(data: Uint8Array, offset: number): number {
   )
 }
 
+// transaction status byte from ReadyForQuery: idle, in transaction, failed transaction
+type TransactionStatus = 'I' | 'T' | 'E'
+
+/**
+ * find the transaction status of the last ReadyForQuery in a response buffer.
+ * returns null if the buffer contains no ReadyForQuery.
+ */
+function getTransactionStatus(data: Uint8Array): TransactionStatus | null {
+  let status: TransactionStatus | null = null
+  let offset = 0
+  while (offset + 5 <= data.length) {
+    const totalLen = 1 + readInt32BE(data, offset + 1)
+    if (totalLen <= 0 || offset + totalLen > data.length) break
+    if (data[offset] === 0x5a && totalLen === 6) {
+      status = String.fromCharCode(data[offset + 5]) as TransactionStatus
+    }
+    offset += totalLen
+  }
+  return status
+}
+
+/**
+ * build an ErrorResponse message with severity, SQLSTATE code and message.
+ */
+function buildErrorResponse(severity: string, code: string, message: string): Uint8Array {
+  const encoder = new TextEncoder()
+  const fields = encoder.encode(`S${severity}\0V${severity}\0C${code}\0M${message}\0\0`)
+  const buf = new Uint8Array(5 + fields.length)
+  buf[0] = 0x45 // 'E'
+  new DataView(buf.buffer).setInt32(1, 4 + fields.length)
+  buf.set(fields, 5)
+  return buf
+}
+
+/**
+ * build a Simple Query that fails with the given SQLSTATE and message. running
+ * it puts pglite's transaction into the same state a real failure would.
+ */
+function buildRaiseQuery(code: string, message: string): Uint8Array {
+  const literal = (v: string) => `'${v.replace(/'/g, "''")}'`
+  return rebuildSimpleQuery(
+    `DO $orez$BEGIN RAISE EXCEPTION USING ERRCODE = ${literal(code)}, MESSAGE = ${literal(message)}; END$orez$`
+  )
+}
+
+/**
+ * build a ReadyForQuery message (type 'Z', 0x5a).
+ */
+function buildReadyForQuery(txStatus: TransactionStatus): Uint8Array {
+  const rfq = new Uint8Array(6)
+  rfq[0] = 0x5a
+  new DataView(rfq.buffer).setInt32(1, 5)
+  rfq[5] = txStatus.charCodeAt(0)
+  return rfq
+}
+
+/**
+ * build a BackendKeyData message (type 'K', 0x4b) with the pid and secret a
+ * client needs to cancel its queries.
+ */
+function buildBackendKeyData(pid: number, secret: number): Uint8Array {
+  const buf = new Uint8Array(13)
+  const view = new DataView(buf.buffer)
+  buf[0] = 0x4b // 'K'
+  view.setInt32(1, 12)
+  view.setInt32(5, pid)
+  view.setInt32(9, secret)
+  return buf
+}
+
+// initial message codes, sent without a type byte before startup
+const CANCEL_REQUEST_CODE = 80877102
+const SSL_REQUEST_CODE = 80877103
+
+/**
+ * wait until a new connection has sent at least `count` bytes. resolves with
+ * everything read so far (the socket is left paused), or null if it closed.
+ */
+function readInitialBytes(
+  socket: Socket,
+  count: number,
+  buffered: Buffer = Buffer.alloc(0)
+) {
+  return new Promise<Buffer | null>((resolve) => {
+    if (buffered.length >= count) {
+      resolve(buffered)
+      return
+    }
+    const done = (result: Buffer | null) => {
+      socket.off('data', onData)
+      socket.off('close', onClose)
+      socket.off('error', onClose)
+      socket.pause()
+      resolve(result)
+    }
+    const onData = (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk])
+      if (buffered.length >= count) done(buffered)
+    }
+    const onClose = () => done(null)
+    socket.on('data', onData)
+    socket.on('close', onClose)
+    socket.on('error', onClose)
+  })
+}
+
+type GatewayConnection = Awaited<ReturnType<typeof fromNodeSocket>>
+
+/**
+ * write to a client outside of pg-gateway's own responses. after a TLS upgrade
+ * the socket carries ciphertext, so that goes through the connection's stream.
+ */
+async function writeToClient(
+  socket: Socket,
+  connection: GatewayConnection | undefined,
+  data: Uint8Array
+): Promise<void> {
+  if (socket.destroyed) return
+  const writer = connection?.tlsInfo ? connection.streamWriter : undefined
+  if (!writer) {
+    socket.write(data)
+    return
+  }
+  await writer.write(data).catch(() => {})
+}
+
+// messages of the 57014 (query_canceled) errors
+const QUERY_CANCELED = 'canceling statement due to user request'
+const STATEMENT_TIMEOUT = 'canceling statement due to statement timeout'
+
+// SET/RESET SESSION AUTHORIZATION and set_config('session_authorization', ...)
+const SESSION_AUTHORIZATION =
+  /\b(?:SET|RESET)\s+(?:(?:SESSION|LOCAL)\s+)?SESSION\s+AUTHORIZATION\b|\bset_config\s*\(\s*'session_authorization'/i
+
+/**
+ * parse a statement_timeout value like '5000', '5s' or '1min' into
+ * milliseconds. unparseable values disable the timeout, as does 0.
+ */
+function parseTimeout(value: string | undefined): number {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|min|h|d)?$/i)
+  if (!match) return 0
+  const units: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    min: 60000,
+    h: 3600000,
+    d: 86400000,
+  }
+  return Math.round(Number(match[1]) * units[(match[2] ?? 'ms').toLowerCase()])
+}
+
+/**
+ * extract the portal name from an Execute message (0x45).
+ */
+function extractPortalName(data: Uint8Array): string {
+  let offset = 5
+  while (offset < data.length && data[offset] !== 0) offset++
+  return new TextDecoder().decode(data.subarray(5, offset))
+}
+
+/**
+ * parse the portal, statement and parameter values of a Bind message (0x42).
+ * each parameter comes with its format code (0 = text, 1 = binary).
+ */
+function parseBindMessage(data: Uint8Array): {
+  portal: string
+  statement: string
+  params: Array<{ value: Uint8Array | null; format: number }>
+} {
+  const decoder = new TextDecoder()
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const readName = () => {
+    const start = offset
+    while (offset < data.length && data[offset] !== 0) offset++
+    return decoder.decode(data.subarray(start, offset++))
+  }
+
+  let offset = 5
+  const portal = readName()
+  const statement = readName()
+
+  const formatCount = view.getInt16(offset)
+  offset += 2
+  const formats: number[] = []
+  for (let i = 0; i < formatCount; i++) {
+    formats.push(view.getInt16(offset))
+    offset += 2
+  }
+
+  const paramCount = view.getInt16(offset)
+  offset += 2
+  const params: Array<{ value: Uint8Array | null; format: number }> = []
+  for (let i = 0; i < paramCount; i++) {
+    const len = view.getInt32(offset)
+    offset += 4
+    const format = formats.length === 1 ? formats[0] : (formats[i] ?? 0)
+    if (len < 0) {
+      params.push({ value: null, format })
+    } else {
+      params.push({ value: data.subarray(offset, offset + len), format })
+      offset += len
+    }
+  }
+  return { portal, statement, params }
+}
+
+/**
+ * read an integer Bind parameter. returns null for NULL or anything that
+ * isn't an integer.
+ */
+function decodeIntParam(param?: {
+  value: Uint8Array | null
+  format: number
+}): bigint | null {
+  if (!param?.value) return null
+  const { value, format } = param
+  if (format === 0) {
+    const text = new TextDecoder().decode(value).trim()
+    return /^-?\d+$/.test(text) ? BigInt(text) : null
+  }
+  const view = new DataView(value.buffer, value.byteOffset, value.byteLength)
+  if (value.length === 8) return view.getBigInt64(0)
+  if (value.length === 4) return BigInt(view.getInt32(0))
+  if (value.length === 2) return BigInt(view.getInt16(0))
+  return null
+}
+
+// custom setting that carries advisory call results into prepared statements
+const ADVISORY_SETTING = 'orez.advisory'
+const ADVISORY_HELPER = 'orez_advisory'
+
+// instances that have the ADVISORY_HELPER statement prepared
+const advisoryHelperReady = new WeakSet<PGlite>()
+
+/**
+ * SQL standing in for an advisory call in a prepared statement. the result is
+ * read from ADVISORY_SETTING at execution time, the arguments are kept so
+ * parameter types are still inferred.
+ */
+function advisoryPlaceholder(call: AdvisoryCall, index: number): string {
+  const value =
+    call.action === 'try' || call.action === 'unlock'
+      ? `NULLIF(split_part(current_setting('${ADVISORY_SETTING}', true), ',', ${index + 1}), '')::boolean`
+      : `''::void`
+  if (call.args.length === 0) return `(SELECT ${value} AS ${call.name})`
+  const type = call.args.length === 1 ? 'bigint' : 'integer'
+  const args = call.args.map((a, i) => `(${a})::${type} AS k${i}`).join(', ')
+  return `(SELECT ${value} AS ${call.name} FROM (SELECT ${args}) AS _orez_args)`
+}
+
+/**
+ * SQL standing in for an advisory call in a simple query, with its result.
+ */
+function advisoryResult(call: AdvisoryCall, result: boolean | null): string {
+  if (call.action === 'try' || call.action === 'unlock') {
+    return `(SELECT ${result === null ? 'NULL::boolean' : result} AS ${call.name})`
+  }
+  return `(SELECT ''::void AS ${call.name})`
+}
+
+/**
+ * build the messages that set ADVISORY_SETTING for the current transaction
+ * through a named helper statement, leaving the client's unnamed statement and
+ * portal untouched.
+ */
+function buildAdvisorySetting(value: string, prepare: boolean): Uint8Array {
+  const encoder = new TextEncoder()
+  const message = (type: number, body: Uint8Array) => {
+    const msg = new Uint8Array(5 + body.length)
+    msg[0] = type
+    new DataView(msg.buffer).setInt32(1, 4 + body.length)
+    msg.set(body, 5)
+    return msg
+  }
+  const cstr = (v: string) => encoder.encode(v + '\0')
+  const int16 = (v: number) => new Uint8Array([(v >> 8) & 0xff, v & 0xff])
+  const int32 = (v: number) => {
+    const b = new Uint8Array(4)
+    new DataView(b.buffer).setInt32(0, v)
+    return b
+  }
+
+  const valueBytes = encoder.encode(value)
+  const parts: Uint8Array[] = []
+  if (prepare) {
+    parts.push(
+      message(
+        0x50,
+        concatBuffers([
+          cstr(ADVISORY_HELPER),
+          cstr(`SELECT set_config('${ADVISORY_SETTING}', $1, true)`),
+          int16(0),
+        ])
+      )
+    )
+  }
+  parts.push(
+    message(
+      0x42,
+      concatBuffers([
+        cstr(ADVISORY_HELPER),
+        cstr(ADVISORY_HELPER),
+        int16(0),
+        int16(1),
+        int32(valueBytes.length),
+        valueBytes,
+        int16(0),
+      ])
+    ),
+    message(0x45, concatBuffers([cstr(ADVISORY_HELPER), int32(0)])),
+    message(0x43, concatBuffers([new Uint8Array([0x50]), cstr(ADVISORY_HELPER)]))
+  )
+  return concatBuffers(parts)
+}
+
 // pglite warnings to suppress (benign, but noisy)
 // 25001: "there is already a transaction in progress"
 // 25P01: "there is no transaction in progress"
@@ -306,6 +816,48 @@ function extractNoticeCode(
  * strip ReadyForQuery messages from a response buffer.
  */
 function stripReadyForQuery(data: Uint8Array): Uint8Array {
+  return stripMessages(data, 0x5a)
+}
+
+/**
+ * strip NotificationResponse messages from a response buffer. pglite puts every
+ * notification of the shared session into whatever response is being executed;
+ * they're routed to listening connections through the NotificationHub instead.
+ */
+function stripNotifications(data: Uint8Array): Uint8Array {
+  return stripMessages(data, 0x41)
+}
+
+/**
+ * concatenate protocol message buffers.
+ */
+function concatBuffers(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, p) => sum + p.length, 0)
+  const result = new Uint8Array(total)
+  let pos = 0
+  for (const p of parts) {
+    result.set(p, pos)
+    pos += p.length
+  }
+  return result
+}
+
+/**
+ * check whether a response buffer contains a message of the given type.
+ */
+function containsMessage(data: Uint8Array, type: number): boolean {
+  let offset = 0
+  while (offset + 5 <= data.length) {
+    if (data[offset] === type) return true
+    offset += 1 + readInt32BE(data, offset + 1)
+  }
+  return false
+}
+
+/**
+ * strip all messages of one type from a response buffer.
+ */
+function stripMessages(data: Uint8Array, type: number): Uint8Array {
   if (data.length === 0) return data
 
   const parts: Uint8Array[] = []
@@ -318,7 +870,7 @@ function stripReadyForQuery(data: Uint8Array): Uint8Array {
 
     if (totalLen <= 0 || offset + totalLen > data.length) break
 
-    if (msgType !== 0x5a) {
+    if (msgType !== type) {
       parts.push(data.subarray(offset, offset + totalLen))
     }
 
@@ -380,6 +932,27 @@ function stripTransactionWarnings(data: Uint8Array): Uint8Array {
   return result
 }
 
+// statements the proxy answers itself instead of pglite
+type ProxyCommand = DatabaseCommand | SessionReset
+
+function parseProxyCommand(query: string): ProxyCommand | null {
+  return parseDatabaseCommand(query) ?? parseSessionReset(query)
+}
+
+interface InstanceState {
+  mutex: Mutex
+  sessionState: SessionState
+  notifications: NotificationHub
+}
+
+function createInstanceState(db: PGlite): InstanceState {
+  return {
+    mutex: getInstanceMutex(db),
+    sessionState: new SessionState(),
+    notifications: new NotificationHub(),
+  }
+}
+
 export async function startPgProxy(
   dbInput: PGlite | PGliteInstances,
   config: ZeroLiteConfig
@@ -388,74 +961,741 @@ export async function startPgProxy(
   const instances: PGliteInstances =
     'postgres' in dbInput
       ? (dbInput as PGliteInstances)
-      : { postgres: dbInput as PGlite, cvr: dbInput as PGlite, cdb: dbInput as PGlite }
+      : {
+          postgres: dbInput as PGlite,
+          cvr: dbInput as PGlite,
+          cdb: dbInput as PGlite,
+          databases: new Map(),
+        }
+
+  // per-instance proxy state: the mutex serializing pglite access (shared with
+  // whatever else queries the instance), whose session settings are applied,
+  // and which connections listen on which channels.
+  // keyed by the instance itself, so one that replaces another (a zero state
+  // reset, recovery, a dropped and recreated database) starts out fresh.
+  const shared = new WeakMap<PGlite, InstanceState>()
+
+  // helper to get instance + its shared proxy state for a database name.
+  // names that aren't a database go to postgres.
+  function getDbContext(
+    dbName: string
+  ): { db: PGlite; advisoryLocks: AdvisoryLockTable } & InstanceState {
+    const extra = instances.databases.get(dbName)
+    const name = extra
+      ? dbName
+      : dbName === 'zero_cvr'
+        ? 'cvr'
+        : dbName === 'zero_cdb'
+          ? 'cdb'
+          : 'postgres'
+    const db = extra ?? instances[name as 'postgres' | 'cvr' | 'cdb']
+    let state = shared.get(db)
+    if (!state) {
+      state = createInstanceState(db)
+      shared.set(db, state)
+    }
+    return { db, advisoryLocks: getAdvisoryLockTable(db), ...state }
+  }
+
+  // CREATE/DROP DATABASE run one at a time
+  const databaseCommands = new Mutex()
 
-  // per-instance mutexes for serializing pglite access
-  const mutexes = {
-    postgres: new Mutex(),
-    cvr: new Mutex(),
-    cdb: new Mutex(),
+  async function runDatabaseCommand(command: DatabaseCommand, pid: number) {
+    const { action, name } = command
+    if (action === 'create') {
+      await createDatabase(instances, config, name)
+      log.debug.proxy(`created database ${name}`)
+      return
+    }
+
+    if (!instances.databases.has(name)) {
+      if (isBuiltinDatabase(name)) {
+        throw new SqlError(
+          '55006',
+          `database "${name}" is used by oreZ and can't be dropped`
+        )
+      }
+      if (command.ifExists) return
+      throw new SqlError('3D000', `database "${name}" does not exist`)
+    }
+    const users = [...backends].filter(([, backend]) => backend.database() === name)
+    if (users.some(([other]) => other === pid)) {
+      throw new SqlError('55006', 'cannot drop the currently open database')
+    }
+    if (users.length > 0) {
+      if (!command.force) {
+        throw new SqlError('55006', `database "${name}" is being accessed by other users`)
+      }
+      await Promise.all(users.map(([, backend]) => backend.terminate()))
+    }
+
+    // let anything still running on it finish first
+    const { mutex } = getDbContext(name)
+    await mutex.acquire()
+    try {
+      await dropDatabase(instances, config, name)
+    } finally {
+      mutex.release()
+    }
   }
 
-  // helper to get instance + mutex for a database name
-  function getDbContext(dbName: string): { db: PGlite; mutex: Mutex } {
-    if (dbName === 'zero_cvr') return { db: instances.cvr, mutex: mutexes.cvr }
-    if (dbName === 'zero_cdb') return { db: instances.cdb, mutex: mutexes.cdb }
-    return { db: instances.postgres, mutex: mutexes.postgres }
+  let nextConnectionId = 1
+
+  // answer SSLRequest with the dev certificate or the configured one
+  const credentials = config.pgTls ? loadTlsCredentials(config) : undefined
+  const encoder = new TextEncoder()
+  const tls = credentials && {
+    cert: encoder.encode(credentials.cert).buffer,
+    key: encoder.encode(credentials.key).buffer,
   }
 
+  const logins = getLogins(config)
+  const auth = createAuthOptions(config, logins)
+
+  // pid -> cancel key, database and controls of every open connection
+  const backends = new Map<
+    number,
+    {
+      secret: number
+      database: () => string
+      cancel: () => void
+      // disconnect, resolving once the connection is cleaned up
+      terminate: () => Promise<void>
+    }
+  >()
+
   const server = createServer(async (socket: Socket) => {
     // prevent idle timeouts from killing connections
     socket.setKeepAlive(true, 30000)
     socket.setTimeout(0)
 
+    // a CancelRequest arrives on a connection of its own instead of a startup
+    // message. pg-gateway doesn't know it, so look at the first bytes first.
+    const initial = await readInitialBytes(socket, 8)
+    if (!initial) return
+    const initialCode = initial.readInt32BE(4)
+    if (initialCode === CANCEL_REQUEST_CODE) {
+      const request = await readInitialBytes(socket, 16, initial)
+      const backend = request && backends.get(request.readInt32BE(8))
+      if (backend && backend.secret === request.readInt32BE(12)) backend.cancel()
+      socket.destroy()
+      return
+    }
+    socket.unshift(initial)
+
     let dbName = 'postgres'
     let isReplicationConnection = false
+    let connection: GatewayConnection | undefined
+    const replication: ReplicationConnection = {}
+
+    // named statements/portals live in a per-connection namespace on the shared session
+    const connectionId = nextConnectionId++
+    const statementPrefix = `orez${connectionId}_`
+    const statements = new Set<string>()
+
+    // session settings and temp objects this connection made, switched in and
+    // out of the shared session as the instance lock moves between connections
+    const session = createConnectionSession(connectionId)
+    let pendingChanges = { settings: false, temp: false }
+    // logged in as one of the users confined to a role
+    let restricted = false
+    // why a restricted login may not use this connection, told once authenticated
+    let refusal: BackendError | null = null
+
+    // LISTEN/NOTIFY: channels this connection listens on. notifications go out
+    // right away while the connection is idle, otherwise once it's idle again.
+    const pid = connectionId
+    // pg_backend_pid() answers with the pid clients see in BackendKeyData and
+    // notifications, not the shared pglite session's
+    const queryRewrites = [
+      ...QUERY_REWRITES,
+      {
+        match: /\bpg_backend_pid\s*\(\s*\)/gi,
+        replace: `(SELECT ${pid} AS pg_backend_pid)`,
+      },
+    ]
+    let pendingNotifications: Uint8Array[] = []
+    let unlistened = false
+    const listener: NotificationListener = {
+      pid,
+      channels: new Set(),
+      deliver(message) {
+        if (socket.destroyed) return
+        if (busy || holdsLock) pendingNotifications.push(message)
+        else writeToClient(socket, connection, message)
+      },
+    }
 
-    // clean up pglite transaction state when a client disconnects
-    socket.on('close', async () => {
+    // transaction-scoped locking: the instance lock is taken on the first message
+    // and held until a Sync/Query response reports the connection is idle again,
+    // so a BEGIN…COMMIT from one client can't interleave with another client's
+    // statements on the shared pglite session.
+    let txStatus: TransactionStatus = 'I'
+    let holdsLock = false
+    let busy = false
+    let closed = false
+    let idleTimer: ReturnType<typeof setTimeout> | null = null
+
+    // advisory locks: calls in prepared statements and the keys bound to portals,
+    // plus what's needed to restore the unnamed statement and portals after
+    // waiting on a lock with the instance lock given up
+    const advisoryStatements = new Map<string, AdvisoryCall[]>()
+    const advisoryPortals = new Map<
+      string,
+      { calls: AdvisoryCall[]; keys: Array<bigint[] | null> }
+    >()
+    let unnamedParse: Uint8Array | null = null
+    const portalBinds = new Map<string, Uint8Array>()
+    // an error the proxy raised in an extended protocol batch: skip to the Sync
+    let batchError: SqlError | null = null
+    // a replication slot's snapshot imported by the open transaction
+    let snapshotImport: ImportedSnapshot | null = null
+
+    // statements and portals of this connection the proxy answers itself
+    // (CREATE/DROP DATABASE, DISCARD ALL, DEALLOCATE ALL), which never reach
+    // pglite.
+    const commandStatements = new Map<string, ProxyCommand>()
+    const commandPortals = new Map<string, ProxyCommand>()
+
+    async function executeDatabaseCommand(command: DatabaseCommand) {
+      const tag = `${command.action.toUpperCase()} DATABASE`
+      if (txStatus !== 'I') {
+        throw new SqlError('25001', `${tag} cannot run inside a transaction block`)
+      }
+      await databaseCommands.acquire()
       try {
-        const { db, mutex } = getDbContext(dbName)
-        await mutex.acquire()
+        await runDatabaseCommand(command, pid)
+      } finally {
+        databaseCommands.release()
+      }
+      return buildCommandComplete(tag)
+    }
+
+    // DISCARD ALL and DEALLOCATE ALL on the shared session would take every
+    // connection's prepared statements and settings along, so only this
+    // connection's go.
+    async function executeSessionReset(command: SessionReset) {
+      if (command === 'DISCARD ALL' && txStatus !== 'I') {
+        throw new SqlError('25001', `${command} cannot run inside a transaction block`)
+      }
+      if (txStatus === 'E') {
+        throw new SqlError(
+          '25P02',
+          'current transaction is aborted, commands ignored until end of transaction block'
+        )
+      }
+      if (!holdsLock) await acquireLock(waitAbort?.signal)
+      const { db, sessionState, notifications, advisoryLocks } = getDbContext(dbName)
+      if (statements.size > 0) {
+        await db.execProtocolRaw(buildCloseStatements(statements), {
+          throwOnError: false,
+        })
+        statements.clear()
+      }
+      // the unnamed statement isn't a prepared statement to deallocate
+      for (const named of [advisoryStatements, commandStatements]) {
+        for (const name of named.keys()) if (name) named.delete(name)
+      }
+      if (command === 'DISCARD ALL') {
+        advisoryLocks.releaseAll(pid, 'session')
+        await sessionState.discard(db, session)
+        await unlistenAll(db, notifications)
+      }
+      return buildCommandComplete(command)
+    }
+
+    function executeCommand(command: ProxyCommand) {
+      return typeof command === 'string'
+        ? executeSessionReset(command)
+        : executeDatabaseCommand(command)
+    }
+
+    // stop listening on this connection's channels, and pglite on the ones
+    // nobody else needs
+    async function unlistenAll(db: PGlite, notifications: NotificationHub) {
+      const channels = [...listener.channels]
+      listener.channels.clear()
+      const inUse = notifications.channelsInUse()
+      const unused = channels.filter((c) => !inUse.has(c))
+      if (unused.length > 0) {
+        await db.exec(unused.map((c) => `UNLISTEN ${quoteChannel(c)}`).join(';\n'))
+      }
+    }
+
+    // the proxy's answer to a message belonging to a statement it answers
+    // itself, or null for messages pglite handles
+    function commandMessage(
+      data: Uint8Array,
+      query: string | null
+    ): (() => Promise<Uint8Array>) | null {
+      switch (data[0]) {
+        case 0x51: {
+          const command = query && parseProxyCommand(query)
+          if (!command) return null
+          return async () => {
+            const result = await executeCommand(command)
+            if (txStatus !== 'I') {
+              return concatBuffers([result, buildReadyForQuery(txStatus)])
+            }
+            await releaseLock()
+            return withNotifications(concatBuffers([result, buildReadyForQuery('I')]))
+          }
+        }
+        case 0x50: {
+          const name = extractStatementName(data)!
+          const command = query && parseProxyCommand(query)
+          if (!command) {
+            commandStatements.delete(name)
+            return null
+          }
+          commandStatements.set(name, command)
+          return async () => buildParseCompleteResponse()
+        }
+        case 0x42: {
+          const bind = parseBindMessage(data)
+          const command = commandStatements.get(bind.statement)
+          if (!command) {
+            commandPortals.delete(bind.portal)
+            return null
+          }
+          commandPortals.set(bind.portal, command)
+          return async () => buildEmptyMessage(0x32) // BindComplete
+        }
+        case 0x44: {
+          const { kind, name } = extractTarget(data)
+          if (!(kind === 'S' ? commandStatements : commandPortals).has(name)) return null
+          // no parameters (statements only) and no rows
+          const noData = buildEmptyMessage(0x6e)
+          if (kind === 'P') return async () => noData
+          const noParams = new Uint8Array([0x74, 0, 0, 0, 6, 0, 0])
+          return async () => concatBuffers([noParams, noData])
+        }
+        case 0x45: {
+          const command = commandPortals.get(extractPortalName(data))
+          if (!command) return null
+          return () => executeCommand(command)
+        }
+        case 0x43: {
+          const { kind, name } = extractTarget(data)
+          if (!(kind === 'S' ? commandStatements : commandPortals).delete(name)) {
+            return null
+          }
+          return async () => buildEmptyMessage(0x33) // CloseComplete
+        }
+      }
+      return null
+    }
+
+    // cancellation: BackendKeyData gives the client this pid and a secret, and
+    // a CancelRequest with both (or statement_timeout running out) fails the
+    // work in progress with 57014. pglite can't be interrupted mid-statement,
+    // so what gets canceled is waiting for the instance or an advisory lock and
+    // the rest of the batch.
+    const secret = randomInt(0x7fffffff)
+    let cancelReason: SqlError | null = null
+    let waitAbort: AbortController | null = null
+    let inBatch = false
+    let statementTimer: ReturnType<typeof setTimeout> | null = null
+    let startupStatementTimeout: string | undefined
+    let startupApplicationName: string | undefined
+
+    function cancel(message: string) {
+      // like postgres, a cancel for a connection with nothing in progress is ignored
+      if (!busy && !inBatch) return
+      cancelReason = new SqlError('57014', message)
+      waitAbort?.abort(cancelReason)
+    }
+    backends.set(pid, {
+      secret,
+      database: () => dbName,
+      cancel: () => cancel(QUERY_CANCELED),
+      terminate,
+    })
+
+    // statement_timeout runs from a statement's first message until its
+    // Execute or Sync (or simple Query) completes
+    function startStatementTimer() {
+      if (statementTimer) return
+      const timeout = parseTimeout(
+        session.settings?.get('statement_timeout') ?? startupStatementTimeout
+      )
+      if (timeout <= 0) return
+      statementTimer = setTimeout(() => {
+        statementTimer = null
+        cancel(STATEMENT_TIMEOUT)
+      }, timeout)
+    }
+
+    function clearStatementTimer() {
+      if (statementTimer) {
+        clearTimeout(statementTimer)
+        statementTimer = null
+      }
+    }
+
+    function clearIdleTimer() {
+      if (idleTimer) {
+        clearTimeout(idleTimer)
+        idleTimer = null
+      }
+    }
+
+    // take the instance lock and switch the session over to this connection.
+    // rejects with the signal's reason if it's aborted while queued.
+    async function acquireLock(signal?: AbortSignal) {
+      const { db, mutex, sessionState, advisoryLocks } = getDbContext(dbName)
+      advisoryLocks.setInstanceWait(pid, true)
+      try {
+        await mutex.acquire(signal)
+      } finally {
+        advisoryLocks.setInstanceWait(pid, false)
+      }
+      holdsLock = true
+      // running as the superuser instead of the login role would let the
+      // connection past its GRANTs and policies, so that fails the message
+      try {
+        await sessionState.setIdentity(db, session.user, session.role)
+      } catch (err) {
+        holdsLock = false
+        mutex.release()
+        const { code = '42704', message = String(err) } = err as {
+          code?: string
+          message?: string
+        }
+        throw new SqlError(code, message)
+      }
+      try {
+        await sessionState.activate(db, session)
+      } catch (err) {
+        log.debug.proxy(`failed to restore session state: ${err}`)
+      }
+      // with change history kept, record who writes
+      if (getChangeHistory(db)) {
         try {
+          await sessionState.setWriter(db, {
+            connection: pid,
+            applicationName:
+              session.settings?.get('application_name') ?? startupApplicationName ?? null,
+          })
+        } catch (err) {
+          log.debug.proxy(`failed to announce change writer: ${err}`)
+        }
+      }
+    }
+
+    // give up the instance lock, rolling back anything left open
+    async function releaseLock() {
+      clearIdleTimer()
+      // transaction-level advisory locks end with the transaction
+      getDbContext(dbName).advisoryLocks.releaseAll(pid, 'transaction')
+      if (!holdsLock) return
+      snapshotImport = null
+      const { db, mutex, sessionState } = getDbContext(dbName)
+      try {
+        if (txStatus !== 'I') {
           await db.exec('ROLLBACK')
-        } catch {
-          // no transaction to rollback, or db is closed
-        } finally {
-          mutex.release()
         }
+        await sessionState.deactivate(db)
+        await sessionState.setWriter(db, null)
       } catch {
-        // instance may have been replaced during reset, ignore
+        // db may be closed or replaced during reset
+      } finally {
+        txStatus = 'I'
+        holdsLock = false
+        mutex.release()
+      }
+    }
+
+    // roll back and deallocate everything this connection left in the shared session.
+    // runs once, whether triggered by disconnect or the idle timeout.
+    let sessionEnded: Promise<void> | null = null
+    let markEnded = () => {}
+    const ended = new Promise<void>((resolve) => (markEnded = resolve))
+    function endSession(): Promise<void> {
+      sessionEnded ??= cleanupSession().finally(markEnded)
+      return sessionEnded
+    }
+
+    // close the connection for DROP DATABASE ... WITH (FORCE). a message in
+    // flight ends the session once it's done, as on disconnect. detaching stops
+    // pg-gateway from answering whatever the client sends meanwhile.
+    async function terminate() {
+      if (!closed) {
+        closed = true
+        await writeToClient(
+          socket,
+          connection,
+          buildErrorResponse(
+            'FATAL',
+            '57P01',
+            'terminating connection due to administrator command'
+          )
+        )
+        await connection?.detach()
+        socket.end()
+        if (!busy) void endSession()
       }
+      await ended
+    }
+
+    async function cleanupSession() {
+      clearIdleTimer()
+      const { db, mutex, sessionState, notifications, advisoryLocks } =
+        getDbContext(dbName)
+      notifications.delete(listener)
+      advisoryLocks.removeOwner(pid)
+      if (
+        !holdsLock &&
+        statements.size === 0 &&
+        session.tempRelations.size === 0 &&
+        listener.channels.size === 0
+      ) {
+        return
+      }
+      if (!holdsLock) {
+        await mutex.acquire()
+        holdsLock = true
+      }
+      try {
+        if (txStatus !== 'I') {
+          await db.exec('ROLLBACK')
+          txStatus = 'I'
+        }
+        if (statements.size > 0) {
+          await db.execProtocolRaw(buildCloseStatements(statements), {
+            throwOnError: false,
+          })
+        }
+        await sessionState.release(db, session)
+        await unlistenAll(db, notifications)
+      } catch {
+        // db may be closed or replaced during reset
+      } finally {
+        statements.clear()
+        await releaseLock()
+      }
+    }
+
+    // abort a transaction that sat idle for too long, like postgres does with
+    // idle_in_transaction_session_timeout
+    function startIdleTimer() {
+      clearIdleTimer()
+      const timeout = config.idleInTransactionTimeout
+      if (!timeout || timeout <= 0) return
+      idleTimer = setTimeout(() => {
+        idleTimer = null
+        if (busy || closed || !holdsLock) return
+        log.proxy(
+          `terminating connection idle in transaction for ${timeout}ms (db=${dbName})`
+        )
+        closed = true
+        writeToClient(
+          socket,
+          connection,
+          buildErrorResponse(
+            'FATAL',
+            '25P03',
+            'terminating connection due to idle-in-transaction timeout'
+          )
+        ).then(() => socket.end())
+        endSession()
+      }, timeout)
+    }
+
+    // settle one advisory lock call against the lock table. `args` is null when
+    // an argument is NULL, which the (strict) lock functions answer with NULL.
+    async function settleAdvisoryCall(
+      call: AdvisoryCall,
+      args: bigint[] | null,
+      resume?: () => Promise<void>
+    ): Promise<boolean | null> {
+      const { advisoryLocks } = getDbContext(dbName)
+      if (call.action === 'unlock_all') {
+        advisoryLocks.releaseAll(pid, 'session')
+        return null
+      }
+      if (!args) return null
+      const key = advisoryLockKey(args)
+      if (call.action === 'unlock') return advisoryLocks.unlock(pid, key, call.mode)
+      if (advisoryLocks.tryAcquire(pid, key, call.mode, call.scope)) {
+        return call.action === 'try' ? true : null
+      }
+      if (call.action === 'try') return false
+
+      // outside an explicit transaction there's nothing to protect, so give the
+      // instance lock up while waiting and let the holder get to its unlock
+      // (if the wait fails, the instance lock stays given up)
+      const yieldLock = holdsLock && txStatus === 'I'
+      if (yieldLock) {
+        const { db, mutex, sessionState } = getDbContext(dbName)
+        await sessionState.deactivate(db)
+        holdsLock = false
+        mutex.release()
+      }
+      const signal = waitAbort?.signal
+      await advisoryLocks.wait(pid, key, call.mode, call.scope, holdsLock, signal)
+      if (yieldLock) {
+        await acquireLock(signal)
+        await resume?.()
+      }
+      return null
+    }
+
+    // settle the advisory calls of a simple query and put their results in
+    // the query. arguments that aren't plain integers are evaluated first.
+    async function settleAdvisoryQuery(
+      db: PGlite,
+      data: Uint8Array,
+      query: string,
+      calls: AdvisoryCall[]
+    ): Promise<Uint8Array> {
+      const args = calls.map((call) =>
+        call.args.map((a) => resolveAdvisoryArg(a, () => null))
+      )
+      const pending = calls.flatMap((call, i) =>
+        call.args.filter((_, j) => args[i][j] === null)
+      )
+      if (pending.length > 0) {
+        try {
+          const result = await db.query<Record<string, string | null>>(
+            `SELECT ${pending.map((e, i) => `(${e})::bigint::text AS k${i}`).join(', ')}`
+          )
+          const values = Object.values(result.rows[0])
+          let next = 0
+          for (const row of args) {
+            for (let j = 0; j < row.length; j++) {
+              if (row[j] !== null) continue
+              const value = values[next++]
+              row[j] = value === null ? null : BigInt(value)
+            }
+          }
+        } catch (err) {
+          // e.g. keys computed from table rows: leave the calls to pglite
+          log.debug.proxy(`advisory lock arguments not evaluable, not emulated: ${err}`)
+          return data
+        }
+      }
+
+      const results: Array<boolean | null> = []
+      for (let i = 0; i < calls.length; i++) {
+        const keys = args[i]
+        results.push(
+          await settleAdvisoryCall(
+            calls[i],
+            keys.every((k) => k !== null) ? (keys as bigint[]) : null
+          )
+        )
+      }
+      return rebuildSimpleQuery(
+        rewriteAdvisoryCalls(query, calls, (call, i) => advisoryResult(call, results[i]))
+      )
+    }
+
+    // settle the advisory calls of a portal about to be executed and hand the
+    // results to its statement through ADVISORY_SETTING
+    async function settleAdvisoryPortal(
+      portalName: string,
+      portal: { calls: AdvisoryCall[]; keys: Array<bigint[] | null> }
+    ): Promise<void> {
+      // after waiting without the instance lock, other connections may have
+      // replaced the unnamed statement or ended the transaction the portal lived in
+      const resume = async () => {
+        const bind = portalBinds.get(portalName)
+        if (!bind) return
+        const replay: Uint8Array[] = []
+        if (parseBindMessage(bind).statement === '' && unnamedParse) {
+          replay.push(unnamedParse)
+        }
+        replay.push(buildClosePortal(portalName), bind)
+        await getDbContext(dbName).db.execProtocolRaw(concatBuffers(replay), {
+          throwOnError: false,
+        })
+      }
+
+      const results: Array<boolean | null> = []
+      for (let i = 0; i < portal.calls.length; i++) {
+        results.push(await settleAdvisoryCall(portal.calls[i], portal.keys[i], resume))
+      }
+
+      const { db } = getDbContext(dbName)
+      const value = results.map((r) => (r === null ? '' : r ? 't' : 'f')).join(',')
+      const prepare = !advisoryHelperReady.has(db)
+      const result = await db.execProtocolRaw(buildAdvisorySetting(value, prepare), {
+        throwOnError: false,
+      })
+      // no ParseComplete when pglite is skipping to the next Sync after an error
+      if (prepare && containsMessage(result, 0x31)) advisoryHelperReady.add(db)
+    }
+
+    // add queued notifications to a response, just before its ReadyForQuery
+    // like postgres does
+    function withNotifications(result: Uint8Array): Uint8Array {
+      if (pendingNotifications.length === 0) return result
+      const rfqStart = result.length - 6
+      const endsWithRfq = rfqStart >= 0 && result[rfqStart] === 0x5a
+      result = endsWithRfq
+        ? concatBuffers([
+            result.subarray(0, rfqStart),
+            ...pendingNotifications,
+            result.subarray(rfqStart),
+          ])
+        : concatBuffers([result, ...pendingNotifications])
+      pendingNotifications = []
+      return result
+    }
+
+    // answer a message with an error the proxy raised. in an extended protocol
+    // batch the rest is skipped until Sync; at a Sync or simple Query inside a
+    // transaction, pglite's transaction is failed along with it.
+    async function failMessage(type: number, err: SqlError): Promise<Uint8Array> {
+      cancelReason = null
+      const error = buildErrorResponse('ERROR', err.code, err.message)
+      if (type !== 0x51 && type !== 0x53) {
+        batchError = err
+        return error
+      }
+      batchError = null
+      if (!holdsLock) return concatBuffers([error, buildReadyForQuery(txStatus)])
+
+      const { db } = getDbContext(dbName)
+      let result = await db.execProtocolRaw(buildRaiseQuery(err.code, err.message), {
+        throwOnError: false,
+      })
+      txStatus = getTransactionStatus(result) ?? txStatus
+      result = stripTransactionWarnings(stripNotifications(result))
+      if (txStatus === 'I') await releaseLock()
+      return withNotifications(result)
+    }
+
+    // clean up pglite transaction state when a client disconnects
+    socket.on('close', async () => {
+      closed = true
+      backends.delete(pid)
+      clearStatementTimer()
+      // hand its advisory locks over right away, even if a message is in flight
+      getDbContext(dbName).advisoryLocks.removeOwner(pid)
+      // an in-flight message releases the lock itself once it finishes
+      if (!busy) await endSession()
     })
 
     try {
-      const connection = await fromNodeSocket(socket, {
+      connection = await fromNodeSocket(socket, {
         serverVersion: '17.4',
-        auth: {
-          method: 'password',
-          getClearTextPassword() {
-            return config.pgPassword
-          },
-          validateCredentials(credentials: {
-            username: string
-            password: string
-            clearTextPassword: string
-          }) {
-            return (
-              credentials.password === credentials.clearTextPassword &&
-              credentials.username === config.pgUser
-            )
-          },
-        },
+        // pg-gateway refuses plaintext when given tls options, but clients
+        // that don't ask for TLS are still welcome
+        tls: initialCode === SSL_REQUEST_CODE ? tls : undefined,
+        auth,
 
         // send ParameterStatus messages that standard postgres tools expect
         // pg-gateway sends server_version via the serverVersion option above,
         // but tools like pg_restore also need encoding, datestyle, etc.
         onAuthenticated() {
+          // pg-gateway sends the error and closes the connection
+          if (refusal) throw refusal
           for (const [name, value] of SERVER_PARAMS) {
-            socket.write(buildParameterStatus(name, value))
+            writeToClient(socket, connection, buildParameterStatus(name, value))
           }
+          writeToClient(socket, connection, buildBackendKeyData(pid, secret))
         },
 
         async onStartup(state) {
@@ -464,11 +1704,44 @@ export async function startPgProxy(
             isReplicationConnection = true
           }
           dbName = params?.database || 'postgres'
+          // restricted users run as their role in the app database. replication
+          // and the other databases only run as the superuser (zero's own, and
+          // those made with CREATE DATABASE have no app roles), so they're
+          // refused rather than handed it.
+          const login = params?.user ? logins.get(params.user) : undefined
+          if (login?.role && isReplicationConnection) {
+            refusal = BackendError.create({
+              severity: 'FATAL',
+              code: '42501',
+              message: 'permission denied to start WAL sender',
+              detail: 'Only the owner login may start a replication connection.',
+            })
+          } else if (
+            login?.role &&
+            dbName !== 'postgres' &&
+            (isBuiltinDatabase(dbName) || instances.databases.has(dbName))
+          ) {
+            refusal = BackendError.create({
+              severity: 'FATAL',
+              code: '42501',
+              message: `permission denied for database "${dbName}"`,
+              detail: 'User does not have CONNECT privilege.',
+            })
+          } else if (login?.role) {
+            session.user = session.login = login.role
+            restricted = true
+          }
+          startupStatementTimeout = params?.statement_timeout
+          startupApplicationName = params?.application_name || undefined
           log.debug.proxy(
             `connection: db=${dbName} user=${params?.user} replication=${params?.replication || 'none'}`
           )
-          const { db } = getDbContext(dbName)
+          const { db, notifications } = getDbContext(dbName)
           await db.waitReady
+          if (!isReplicationConnection) {
+            notifications.attach(db)
+            notifications.add(listener)
+          }
         },
 
         async onMessage(data, state) {
@@ -488,47 +1761,237 @@ export async function startPgProxy(
               data,
               socket,
               instances.postgres,
-              mutexes.postgres,
-              connection
+              getDbContext('postgres').mutex,
+              connection!,
+              replication
             )
           }
 
+          // let pg-gateway close the socket on Terminate, pglite can't execute it
+          if (data[0] === 0x58) return
+
+          // after an error the proxy raised, skip the rest of the batch like postgres does
+          const type = data[0]
+          if (batchError && type !== 0x53) return new Uint8Array(0)
+
           // check for no-op queries
           if (isNoopQuery(data)) {
+            // a transaction importing a slot's snapshot records what it reads,
+            // see replication/snapshots.ts
+            const snapshotName = parseSnapshotImport(extractQueryText(data)!)
+            if (snapshotName !== null && holdsLock && txStatus !== 'I') {
+              snapshotImport = await importSnapshot(getDbContext(dbName).db, snapshotName)
+              if (!snapshotImport) {
+                return await failMessage(
+                  type,
+                  new SqlError('22023', `invalid snapshot identifier: "${snapshotName}"`)
+                )
+              }
+            }
             if (data[0] === 0x51) {
-              return buildSetCompleteResponse()
+              return buildSetCompleteResponse(txStatus)
             } else if (data[0] === 0x50) {
               return buildParseCompleteResponse()
             }
           }
 
           // intercept and rewrite queries
-          data = interceptQuery(data)
+          data = interceptQuery(data, queryRewrites)
+
+          // keep this connection's named statements and portals apart from other clients'
+          data = namespaceMessage(data, statementPrefix)
+          const statementName = extractStatementName(data)
+          if (statementName) {
+            if (data[0] === 0x50) statements.add(statementName)
+            else statements.delete(statementName)
+            advisoryStatements.delete(statementName)
+          }
 
-          // message-level locking on the connection's pglite instance
-          const { db, mutex } = getDbContext(dbName)
-          await mutex.acquire()
+          const query = extractQueryText(data)
+          const commandReply = commandMessage(data, query)
+          if (snapshotImport && query) recordSnapshotReads(snapshotImport, query)
+
+          // advisory lock calls are settled by the proxy, see advisory-locks.ts.
+          // prepared statements read their results from a setting at execution,
+          // calls with keys only known at execution are left to pglite.
+          let advisoryCalls: AdvisoryCall[] = []
+          if (query) advisoryCalls = findAdvisoryCalls(query)
+          if (data[0] === 0x50) {
+            const calls = advisoryCalls.filter((call) =>
+              call.args.every((a) => resolveAdvisoryArg(a, () => 0n) !== null)
+            )
+            if (calls.length > 0) {
+              advisoryStatements.set(statementName!, calls)
+              data = rebuildParseMessage(
+                data,
+                rewriteAdvisoryCalls(query!, calls, advisoryPlaceholder)
+              )
+            }
+            if (statementName === '') unnamedParse = data
+          } else if (data[0] === 0x42) {
+            const bind = parseBindMessage(data)
+            portalBinds.set(bind.portal, data)
+            const calls = advisoryStatements.get(bind.statement)
+            if (calls) {
+              const keys = calls.map((call) => {
+                const args = call.args.map((a) =>
+                  resolveAdvisoryArg(a, (n) => decodeIntParam(bind.params[n - 1]))
+                )
+                return args.every((k) => k !== null) ? (args as bigint[]) : null
+              })
+              advisoryPortals.set(bind.portal, { calls, keys })
+            } else {
+              advisoryPortals.delete(bind.portal)
+            }
+          }
 
-          let result: Uint8Array
-          try {
-            result = await db.execProtocolRaw(data, {
-              throwOnError: false,
-            })
-          } catch (err) {
-            mutex.release()
-            throw err
+          if (query) {
+            const changes = detectSessionChanges(query)
+            pendingChanges.settings ||= changes.settings
+            pendingChanges.temp ||= changes.temp
+
+            for (const { command, channel } of parseListenCommands(query)) {
+              if (command === 'LISTEN') {
+                listener.channels.add(channel)
+              } else {
+                if (channel === '*') listener.channels.clear()
+                else listener.channels.delete(channel)
+                unlistened = true
+              }
+            }
           }
 
-          // strip benign transaction state warnings from pglite
-          result = stripTransactionWarnings(result)
+          busy = true
+          clearIdleTimer()
+          if (type !== 0x53) startStatementTimer()
+          waitAbort = new AbortController()
+          try {
+            const { db, sessionState, notifications } = getDbContext(dbName)
+
+            // a cancel that came in between messages of a batch. by the Sync
+            // the work is done, so there's nothing left to cancel
+            if (cancelReason && type !== 0x53) throw cancelReason
+            cancelReason = null
+            // the shared session's real user is the superuser, which a
+            // restricted login could otherwise switch back to
+            if (restricted && query && SESSION_AUTHORIZATION.test(query)) {
+              throw new SqlError(
+                '42501',
+                'permission denied to set session authorization'
+              )
+            }
+            if (commandReply) return await commandReply()
+            if (type === 0x53 && batchError && !holdsLock) {
+              // nothing of the batch is left in pglite to fail
+              batchError = null
+              return buildReadyForQuery(txStatus)
+            }
 
-          // strip ReadyForQuery from non-Sync/non-SimpleQuery responses
-          if (data[0] !== 0x53 && data[0] !== 0x51) {
-            result = stripReadyForQuery(result)
-          }
+            if (!holdsLock) {
+              // settle plain advisory calls before queueing for the instance, so
+              // an idle holder can always get its unlock through
+              if (
+                data[0] === 0x51 &&
+                advisoryCalls.length > 0 &&
+                advisoryCalls.every((call) =>
+                  call.args.every((a) => resolveAdvisoryArg(a, () => null) !== null)
+                )
+              ) {
+                data = await settleAdvisoryQuery(db, data, query!, advisoryCalls)
+                advisoryCalls = []
+              }
+              await acquireLock(waitAbort.signal)
+            }
 
-          mutex.release()
-          return result
+            let failedBatch = false
+            if (data[0] === 0x53 && batchError) {
+              // the error already went out, now fail pglite's transaction too
+              data = buildRaiseQuery(batchError.code, batchError.message)
+              batchError = null
+              failedBatch = true
+            } else if (data[0] === 0x51 && advisoryCalls.length > 0) {
+              data = await settleAdvisoryQuery(db, data, query!, advisoryCalls)
+              // waiting on a lock outside a transaction gives the instance up
+              if (!holdsLock) await acquireLock(waitAbort.signal)
+            } else if (data[0] === 0x45) {
+              const portalName = extractPortalName(data)
+              const portal = advisoryPortals.get(portalName)
+              if (portal) await settleAdvisoryPortal(portalName, portal)
+            }
+
+            notifications.attach(db)
+            notifications.sender = pid
+            let result: Uint8Array
+            try {
+              result = await db.execProtocolRaw(data, {
+                throwOnError: false,
+              })
+            } finally {
+              notifications.sender = 0
+            }
+            result = stripNotifications(result)
+            if (failedBatch) result = stripMessages(result, 0x45)
+
+            const status = getTransactionStatus(result)
+            if (status) txStatus = status
+
+            // strip benign transaction state warnings from pglite
+            result = stripTransactionWarnings(result)
+
+            // strip ReadyForQuery from non-Sync/non-SimpleQuery responses
+            const isSyncPoint = data[0] === 0x53 || data[0] === 0x51
+            if (!isSyncPoint) {
+              result = stripReadyForQuery(result)
+            }
+
+            // pglite's UNLISTEN applies to the whole session, so re-LISTEN on
+            // channels other connections still want
+            if (isSyncPoint && unlistened) {
+              unlistened = false
+              const inUse = [...notifications.channelsInUse()]
+              if (inUse.length > 0) {
+                await db.exec(inUse.map((c) => `LISTEN ${quoteChannel(c)}`).join(';\n'))
+              }
+            }
+
+            // only an idle connection at a sync point hands the lock to others
+            if (isSyncPoint && txStatus === 'I') {
+              // portals don't outlive the transaction
+              portalBinds.clear()
+              advisoryPortals.clear()
+              commandPortals.clear()
+
+              if (pendingChanges.settings || pendingChanges.temp) {
+                try {
+                  await sessionState.capture(db, session, pendingChanges)
+                } catch (err) {
+                  log.debug.proxy(`failed to capture session state: ${err}`)
+                }
+                pendingChanges = { settings: false, temp: false }
+              }
+              await releaseLock()
+              result = withNotifications(result)
+            }
+
+            return result
+          } catch (err) {
+            if (err instanceof SqlError) return await failMessage(type, err)
+            await releaseLock()
+            throw err
+          } finally {
+            busy = false
+            waitAbort = null
+            inBatch = type !== 0x51 && type !== 0x53
+            if (type === 0x45 || type === 0x51 || type === 0x53) {
+              clearStatementTimer()
+              if (type !== 0x45) cancelReason = null
+            }
+            if (closed) {
+              await endSession()
+            } else if (holdsLock) {
+              startIdleTimer()
+            }
+          }
         },
       })
     } catch (err) {
@@ -539,7 +2002,8 @@ export async function startPgProxy(
   })
 
   return new Promise((resolve, reject) => {
-    server.listen(config.pgPort, '127.0.0.1', () => {
+    guardServer(server, config.allowedIps)
+    server.listen(config.pgPort, config.host, () => {
       log.debug.proxy(`listening on port ${config.pgPort}`)
       resolve(server)
     })
@@ -547,13 +2011,26 @@ export async function startPgProxy(
   })
 }
 
+// per-connection state of a replication connection
+interface ReplicationConnection {
+  // reads the client's standby status updates once it is streaming
+  onStandbyStatus?: (message: Uint8Array) => void
+}
+
 async function handleReplicationMessage(
   data: Uint8Array,
   socket: Socket,
   db: PGlite,
   mutex: Mutex,
-  connection: Awaited<ReturnType<typeof fromNodeSocket>>
+  connection: GatewayConnection,
+  replication: ReplicationConnection
 ): Promise<Uint8Array | undefined> {
+  // after detach pg-gateway keeps reading the client and hands over its
+  // CopyData, decrypted under tls, where the raw socket only has ciphertext
+  if (data[0] === 0x64) {
+    replication.onStandbyStatus?.(data)
+    return undefined
+  }
   if (data[0] !== 0x51) return undefined
 
   const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
@@ -567,14 +2044,33 @@ async function handleReplicationMessage(
 
     const writer = {
       write(chunk: Uint8Array) {
-        if (!socket.destroyed) {
-          socket.write(chunk)
+        // ends the stream once the client is gone, so its slot stops holding
+        // back purging
+        if (socket.destroyed) throw new Error('replication socket destroyed')
+        writeToClient(socket, connection, chunk)
+      },
+      // backpressure: the stream pauses until the client reads what it was sent
+      async drain() {
+        const streamWriter = connection.tlsInfo ? connection.streamWriter : undefined
+        if (streamWriter) {
+          await streamWriter.ready.catch(() => {})
+          return
         }
+        if (socket.destroyed || !socket.writableNeedDrain) return
+        await new Promise<void>((resolve) => {
+          const done = () => {
+            socket.off('drain', done)
+            socket.off('close', done)
+            resolve()
+          }
+          socket.on('drain', done)
+          socket.on('close', done)
+        })
       },
     }
 
-    // drain incoming standby status updates
-    socket.on('data', (_chunk: Buffer) => {})
+    // standby status updates confirm how far the client has flushed
+    replication.onStandbyStatus = createStandbyStatusHandler(query, db, mutex)
 
     socket.on('close', () => {
       socket.destroy()
@@ -0,0 +1,99 @@
+/**
+ * logins accepted by the pg proxy.
+ *
+ * `pgUser` is the owner login oreZ and zero-cache use, and runs as the pglite
+ * superuser. every entry in `users` is an extra login that runs as its own
+ * role: whenever that connection holds the shared session, the proxy switches
+ * it over with `SET SESSION AUTHORIZATION`, plus a `SET ROLE` on top for a
+ * role the connection set itself (see `SessionState.setIdentity`). GRANTs and
+ * row-level security policies apply per connection like they would on a real
+ * postgres, and `session_user` names the login.
+ */
+
+import { randomBytes } from 'node:crypto'
+
+import { createScramSha256Data, type ScramSha256Data } from 'pg-gateway'
+
+import type { ZeroLiteConfig } from './config.js'
+import type { PGlite } from '@electric-sql/pglite'
+import type { PostgresConnectionOptions } from 'pg-gateway'
+
+export interface PgLogin {
+  password: string
+  // role to run as, null = the superuser
+  role: string | null
+}
+
+type AuthOptions = NonNullable<PostgresConnectionOptions['auth']>
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+/**
+ * every login the proxy accepts, by user name.
+ */
+export function getLogins(config: ZeroLiteConfig): Map<string, PgLogin> {
+  const logins = new Map<string, PgLogin>()
+  for (const user of config.users) {
+    if (!user.name || user.name === config.pgUser) {
+      throw new Error(`invalid user "${user.name}": must be named and differ from pgUser`)
+    }
+    logins.set(user.name, { password: user.password, role: user.role || user.name })
+  }
+  logins.set(config.pgUser, { password: config.pgPassword, role: null })
+  return logins
+}
+
+/**
+ * create the roles of configured users that don't exist yet, so migrations
+ * can GRANT to them and policies can name them.
+ */
+export async function ensureUserRoles(db: PGlite, config: ZeroLiteConfig): Promise<void> {
+  const roles = new Set(config.users.map((user) => user.role || user.name))
+  for (const role of roles) {
+    const existing = await db.query(`SELECT 1 FROM pg_roles WHERE rolname = $1`, [role])
+    if (existing.rows.length === 0) {
+      await db.exec(`CREATE ROLE ${quoteIdent(role)} NOLOGIN`)
+    }
+  }
+}
+
+/**
+ * pg-gateway auth options checking clients against `logins`.
+ */
+export function createAuthOptions(
+  config: ZeroLiteConfig,
+  logins: Map<string, PgLogin>
+): AuthOptions {
+  if (config.pgAuthMethod === 'password') {
+    return {
+      method: 'password',
+      getClearTextPassword({ username }) {
+        return logins.get(username)?.password ?? ''
+      },
+      validateCredentials({ username, password }) {
+        const login = logins.get(username)
+        return login !== undefined && password === login.password
+      },
+    }
+  }
+
+  // deriving keys is deliberately slow, so do it once per user. unknown users
+  // get keys for a random password and fail like a wrong password would.
+  const scramData = new Map<string, Promise<ScramSha256Data>>()
+  const unknown = createScramSha256Data(randomBytes(32).toString('hex'))
+  return {
+    method: 'scram-sha-256',
+    getScramSha256Data({ username }) {
+      const login = logins.get(username)
+      if (!login) return unknown
+      let data = scramData.get(username)
+      if (!data) {
+        data = createScramSha256Data(login.password)
+        scramData.set(username, data)
+      }
+      return data
+    },
+  }
+}
@@ -0,0 +1,36 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { findDatabaseDirs } from './pglite-manager.js'
+
+describe('findDatabaseDirs', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'orez-database-dirs-'))
+  })
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('finds the directories of additional databases', () => {
+    for (const name of ['postgres', 'cvr', 'cdb', 'worker_1', 'app']) {
+      mkdirSync(join(dataDir, `pgdata-${name}`))
+    }
+    mkdirSync(join(dataDir, 'backups'))
+    expect(findDatabaseDirs(dataDir).sort()).toEqual(['app', 'worker_1'])
+  })
+
+  it('skips files and invalid names instead of throwing', () => {
+    mkdirSync(join(dataDir, 'pgdata-worker_1'))
+    mkdirSync(join(dataDir, 'pgdata-Old Copy'))
+    mkdirSync(join(dataDir, 'pgdata-zero_cvr'))
+    writeFileSync(join(dataDir, 'pgdata-app.tar'), '')
+    writeFileSync(join(dataDir, 'pgdata-notes'), '')
+    expect(findDatabaseDirs(dataDir)).toEqual(['worker_1'])
+  })
+})
@@ -4,15 +4,19 @@ import {
   existsSync,
   mkdirSync,
   renameSync,
+  rmSync,
   unlinkSync,
 } from 'node:fs'
 import { join, resolve } from 'node:path'
 
 import { PGlite } from '@electric-sql/pglite'
+import { citext } from '@electric-sql/pglite/contrib/citext'
 import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm'
 import { vector } from '@electric-sql/pglite/vector'
 
 import { log } from './log.js'
+import { ensureUserRoles } from './pg-users.js'
+import { SqlError } from './sql-error.js'
 
 import type { ZeroLiteConfig } from './config.js'
 
@@ -65,8 +69,22 @@ export interface PGliteInstances {
   postgres: PGlite
   cvr: PGlite
   cdb: PGlite
+  // additional databases by name, from `databases` config or CREATE DATABASE
+  databases: Map<string, PGlite>
 }
 
+// built-in databases, and names of their data directories
+const BUILTIN_DATABASES = new Set([
+  'postgres',
+  'zero_cvr',
+  'zero_cdb',
+  'template0',
+  'template1',
+])
+const RESERVED_NAMES = new Set(['postgres', 'cvr', 'cdb'])
+// names additional databases may have, as unquoted identifiers
+const DATABASE_NAME = /^[a-z_][a-z0-9_]{0,62}$/
+
 // create a single pglite instance with given dataDir suffix
 async function createInstance(
   config: ZeroLiteConfig,
@@ -94,7 +112,9 @@ async function createInstance(
       debug: config.logLevel === 'debug' ? 1 : 0,
       relaxedDurability: true,
       ...userOpts,
-      extensions: withExtensions ? userOpts.extensions || { vector, pg_trgm } : {},
+      extensions: withExtensions
+        ? userOpts.extensions || { vector, pg_trgm, citext }
+        : {},
     })
 
     await db.waitReady
@@ -149,6 +169,14 @@ export async function createPGliteInstances(
 
   // postgres-specific setup
   await postgres.exec('CREATE EXTENSION IF NOT EXISTS plpgsql')
+  await ensureUserRoles(postgres, config)
+
+  // configured databases, plus ones created through the proxy before
+  const instances: PGliteInstances = { postgres, cvr, cdb, databases: new Map() }
+  const existing = findDatabaseDirs(config.dataDir)
+  for (const name of new Set([...config.databases, ...existing])) {
+    await createDatabase(instances, config, name)
+  }
 
   // create publication only when explicitly configured
   const pubName = process.env.ZERO_APP_PUBLICATIONS?.trim()
@@ -163,7 +191,89 @@ export async function createPGliteInstances(
     }
   }
 
-  return { postgres, cvr, cdb }
+  return instances
+}
+
+/**
+ * names of the additional databases with a `pgdata-<name>` directory in
+ * `dataDir`. anything else there that looks like one is skipped with a warning,
+ * rather than failing startup.
+ */
+export function findDatabaseDirs(dataDir: string): string[] {
+  const names: string[] = []
+  for (const entry of readdirSync(dataDir, { withFileTypes: true })) {
+    if (!entry.name.startsWith('pgdata-')) continue
+    const name = entry.name.slice('pgdata-'.length)
+    if (RESERVED_NAMES.has(name)) continue
+    if (
+      !entry.isDirectory() ||
+      BUILTIN_DATABASES.has(name) ||
+      !DATABASE_NAME.test(name)
+    ) {
+      log.pglite(`skipping ${entry.name}: not the data directory of a database`)
+      continue
+    }
+    names.push(name)
+  }
+  return names
+}
+
+/**
+ * every database with its instance: the built-in ones, then additional ones.
+ */
+export function listDatabases(instances: PGliteInstances): [string, PGlite][] {
+  return [
+    ['postgres', instances.postgres],
+    ['zero_cvr', instances.cvr],
+    ['zero_cdb', instances.cdb],
+    ...instances.databases,
+  ]
+}
+
+/**
+ * open (or create) the instance of an additional database at `pgdata-<name>`.
+ */
+export async function createDatabase(
+  instances: PGliteInstances,
+  config: ZeroLiteConfig,
+  name: string
+): Promise<PGlite> {
+  if (BUILTIN_DATABASES.has(name) || instances.databases.has(name)) {
+    throw new SqlError('42P04', `database "${name}" already exists`)
+  }
+  if (RESERVED_NAMES.has(name)) {
+    throw new SqlError('42602', `database name "${name}" is reserved`)
+  }
+  if (!DATABASE_NAME.test(name)) {
+    throw new SqlError(
+      '42602',
+      `invalid database name "${name}": use lowercase letters, digits and underscores`
+    )
+  }
+  const db = await createInstance(config, name, true)
+  await db.exec('CREATE EXTENSION IF NOT EXISTS plpgsql')
+  instances.databases.set(name, db)
+  return db
+}
+
+export function isBuiltinDatabase(name: string): boolean {
+  return BUILTIN_DATABASES.has(name)
+}
+
+/**
+ * close an additional database's instance and delete its data directory.
+ */
+export async function dropDatabase(
+  instances: PGliteInstances,
+  config: ZeroLiteConfig,
+  name: string
+): Promise<void> {
+  const db = instances.databases.get(name)
+  if (!db) throw new SqlError('3D000', `database "${name}" does not exist`)
+  instances.databases.delete(name)
+  await db.close().catch(() => {})
+  rmSync(resolve(config.dataDir, `pgdata-${name}`), { recursive: true, force: true })
+  log.debug.pglite(`dropped ${name}`)
 }
 
 /** run pending migrations, returns count of newly applied migrations */
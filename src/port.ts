@@ -1,6 +1,12 @@
 import { createServer } from 'node:net'
 
-export function findPort(preferred: number, maxAttempts = 20): Promise<number> {
+import { DEFAULT_HOST } from './network.js'
+
+export function findPort(
+  preferred: number,
+  host = DEFAULT_HOST,
+  maxAttempts = 20
+): Promise<number> {
   return new Promise((resolve, reject) => {
     let attempt = 0
 
@@ -15,7 +21,7 @@ export function findPort(preferred: number, maxAttempts = 20): Promise<number> {
           reject(err)
         }
       })
-      server.listen(port, '127.0.0.1', () => {
+      server.listen(port, host, () => {
         server.close(() => resolve(port))
       })
     }
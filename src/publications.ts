@@ -0,0 +1,80 @@
+/**
+ * publications zero-cache replicates.
+ *
+ * unless ZERO_APP_PUBLICATIONS names the app's own, oreZ creates one for the
+ * app and adds every public table to it, at startup and whenever the schema
+ * changes.
+ */
+
+import { log } from './log.js'
+
+import type { PGlite } from '@electric-sql/pglite'
+
+// publications oreZ created and keeps in sync, for syncing after schema changes
+let managedNames: string[] = []
+
+export function getManagedPublicationConfig(): {
+  names: string[]
+  managedByOrez: boolean
+} {
+  const existing = process.env.ZERO_APP_PUBLICATIONS?.trim()
+  if (existing) {
+    const names = existing
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean)
+    managedNames = []
+    return { names, managedByOrez: false }
+  }
+
+  const appId = (process.env.ZERO_APP_ID || 'zero').trim() || 'zero'
+  const fallback = `orez_${appId}_public`
+  process.env.ZERO_APP_PUBLICATIONS = fallback
+  managedNames = [fallback]
+  return { names: [fallback], managedByOrez: true }
+}
+
+/**
+ * names of the publications oreZ manages, empty if the app brings its own.
+ */
+export function getManagedPublications(): string[] {
+  return managedNames
+}
+
+export async function syncManagedPublications(
+  db: PGlite,
+  names: string[],
+  managedByOrez: boolean
+): Promise<void> {
+  if (!managedByOrez || names.length === 0) return
+
+  const tables = await db.query<{ tablename: string }>(
+    `SELECT tablename
+     FROM pg_tables
+     WHERE schemaname = 'public'
+       AND tablename NOT LIKE '_zero_%'`
+  )
+  const publicTables = tables.rows
+    .map((r) => r.tablename)
+    .filter((t) => !t.startsWith('_'))
+
+  for (const pub of names) {
+    const quotedPub = '"' + pub.replace(/"/g, '""') + '"'
+    await db.exec(`CREATE PUBLICATION ${quotedPub}`).catch(() => {})
+
+    if (publicTables.length === 0) continue
+    const inPub = await db.query<{ tablename: string }>(
+      `SELECT tablename
+       FROM pg_publication_tables
+       WHERE pubname = $1
+         AND schemaname = 'public'`,
+      [pub]
+    )
+    const inPubSet = new Set(inPub.rows.map((r) => r.tablename))
+    const toAdd = publicTables.filter((t) => !inPubSet.has(t))
+    if (toAdd.length === 0) continue
+    const tableList = toAdd.map((t) => `"public"."${t.replace(/"/g, '""')}"`).join(', ')
+    await db.exec(`ALTER PUBLICATION ${quotedPub} ADD TABLE ${tableList}`)
+    log.debug.orez(`added ${toAdd.length} table(s) to publication "${pub}"`)
+  }
+}
@@ -110,11 +110,8 @@ export async function recoverFromCdcCorruption(ctx: RecoveryContext): Promise<vo
 }
 
 /**
- * proactively clean CDC state on startup to prevent duplicate key errors.
- * this handles cases where orez was killed (SIGKILL) mid-transaction,
- * leaving stale watermarks in the changeLog table.
- *
- * in dev mode, it's safe to drop all CDC schemas - zero-cache will recreate them.
+ * drop zero-cache's CDC state, so it re-initializes from a fresh sync.
+ * zero-cache recreates the schemas.
  */
 export async function cleanCdcStateOnStartup(cdb: PGlite): Promise<void> {
   try {
@@ -138,3 +135,28 @@ export async function cleanCdcStateOnStartup(cdb: PGlite): Promise<void> {
     log.debug.orez(`CDC cleanup warning: ${err?.message || err}`)
   }
 }
+
+// the replication lsn scheme of the data dir. 2 derives lsns from change
+// watermarks (see replication/handler.ts); without a recorded scheme, the
+// replica, CDC state and slots hold lsns orez no longer hands out.
+const LSN_SCHEME = 2
+
+/**
+ * whether the replication state stored in the data dir predates the current
+ * lsn scheme, so zero-cache can't resume from it.
+ */
+export async function isLsnSchemeOutdated(db: PGlite): Promise<boolean> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS _orez._zero_lsn_scheme (version INTEGER NOT NULL)
+  `)
+  const result = await db.query<{ version: number }>(
+    `SELECT max(version) AS version FROM _orez._zero_lsn_scheme`
+  )
+  return (result.rows[0]?.version ?? 0) < LSN_SCHEME
+}
+
+/** record that the stored replication state uses the current lsn scheme. */
+export async function recordLsnScheme(db: PGlite): Promise<void> {
+  await db.query(`DELETE FROM _orez._zero_lsn_scheme`)
+  await db.query(`INSERT INTO _orez._zero_lsn_scheme (version) VALUES ($1)`, [LSN_SCHEME])
+}
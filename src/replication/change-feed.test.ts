@@ -0,0 +1,111 @@
+import { PGlite } from '@electric-sql/pglite'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+
+import { subscribeChanges, type ChangeEvent } from './change-feed'
+import { countChanges, installChangeTracking } from './change-tracker'
+
+describe('change-feed', () => {
+  let db: PGlite
+  const unsubscribes: Array<() => void> = []
+
+  beforeEach(async () => {
+    db = new PGlite()
+    await db.waitReady
+    await db.exec(`
+      CREATE TABLE public.items (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TABLE public.other (id INTEGER PRIMARY KEY);
+    `)
+    await installChangeTracking(db)
+  })
+
+  afterEach(async () => {
+    for (const unsubscribe of unsubscribes.splice(0)) unsubscribe()
+    await db.close()
+  })
+
+  function subscribe(filter: Parameters<typeof subscribeChanges>[1]): ChangeEvent[] {
+    const events: ChangeEvent[] = []
+    unsubscribes.push(subscribeChanges(db, filter, (event) => void events.push(event)))
+    return events
+  }
+
+  async function until(check: () => boolean) {
+    const deadline = Date.now() + 3000
+    while (!check() && Date.now() < deadline) {
+      await new Promise((r) => setTimeout(r, 20))
+    }
+  }
+
+  it('delivers changes committed after subscribing', async () => {
+    await db.exec(`INSERT INTO public.items VALUES (1, 'before')`)
+    const events = subscribe({})
+    await new Promise((r) => setTimeout(r, 100))
+
+    await db.exec(`
+      INSERT INTO public.items VALUES (2, 'a');
+      UPDATE public.items SET name = 'b' WHERE id = 2;
+      DELETE FROM public.items WHERE id = 2;
+      TRUNCATE public.other;
+    `)
+    await until(() => events.length === 4)
+
+    expect(
+      events.map(({ table, op, row, oldRow }) => ({ table, op, row, oldRow }))
+    ).toEqual([
+      { table: 'public.items', op: 'INSERT', row: { id: 2, name: 'a' }, oldRow: null },
+      {
+        table: 'public.items',
+        op: 'UPDATE',
+        row: { id: 2, name: 'b' },
+        oldRow: { id: 2, name: 'a' },
+      },
+      { table: 'public.items', op: 'DELETE', row: null, oldRow: { id: 2, name: 'b' } },
+      { table: 'public.other', op: 'TRUNCATE', row: null, oldRow: null },
+    ])
+    expect(events[1].watermark).toBeGreaterThan(events[0].watermark)
+  })
+
+  it('filters by table and operation', async () => {
+    const inserts = subscribe({ tables: ['items'], ops: ['INSERT'] })
+    const other = subscribe({ tables: ['public.other'] })
+    await new Promise((r) => setTimeout(r, 100))
+
+    await db.exec(`
+      INSERT INTO public.items VALUES (1, 'a');
+      UPDATE public.items SET name = 'b';
+      INSERT INTO public.other VALUES (1);
+    `)
+    await until(() => inserts.length === 1 && other.length === 1)
+    await new Promise((r) => setTimeout(r, 300))
+
+    expect(inserts.map((e) => e.row)).toEqual([{ id: 1, name: 'a' }])
+    expect(other.map((e) => e.table)).toEqual(['public.other'])
+  })
+
+  it('keeps going after a failing subscriber and stops on unsubscribe', async () => {
+    const events: ChangeEvent[] = []
+    const unsubscribe = subscribeChanges(db, {}, (event) => {
+      events.push(event)
+      throw new Error('boom')
+    })
+    await new Promise((r) => setTimeout(r, 100))
+
+    await db.exec(`INSERT INTO public.items VALUES (1, 'a')`)
+    await db.exec(`INSERT INTO public.items VALUES (2, 'b')`)
+    await until(() => events.length === 2)
+    expect(events).toHaveLength(2)
+
+    unsubscribe()
+    await db.exec(`INSERT INTO public.items VALUES (3, 'c')`)
+    await new Promise((r) => setTimeout(r, 400))
+    expect(events).toHaveLength(2)
+  })
+
+  it('leaves the change log to replication', async () => {
+    const events = subscribe({})
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`INSERT INTO public.items VALUES (1, 'a')`)
+    await until(() => events.length === 1)
+    expect(await countChanges(db)).toBe(1)
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * change subscriptions for code running alongside orez.
+ *
+ * reads `_orez._zero_changes` on its own, next to the replication streams: one
+ * feed per pglite instance polls for committed changes while anyone is
+ * subscribed and hands each subscriber those matching its filter. it neither
+ * moves a replication slot nor holds back purging, so it can miss changes
+ * every stream flushed and purged before it got to read them, which it warns
+ * about.
+ */
+
+import { log, warning } from '../log.js'
+import { getInstanceMutex } from '../mutex.js'
+import { getChangesSince, getCurrentWatermark } from './change-tracker.js'
+import { getPurgedWatermark } from './handler.js'
+
+import type { PGlite } from '@electric-sql/pglite'
+
+export type ChangeOp = 'INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE'
+
+export interface ChangeEvent {
+  // `schema.table`
+  table: string
+  op: ChangeOp
+  // the new row of an INSERT or UPDATE
+  row: Record<string, unknown> | null
+  // the old row of an UPDATE or DELETE
+  oldRow: Record<string, unknown> | null
+  watermark: number
+  // txid_current() of the writing transaction
+  txid: number
+  changedAt: string
+}
+
+export interface ChangeFilter {
+  // `schema.table`, or the name of a table in public. all tables if unset.
+  tables?: string[]
+  // all operations if unset
+  ops?: ChangeOp[]
+}
+
+export type ChangeCallback = (event: ChangeEvent) => void | Promise<void>
+
+interface Subscriber {
+  tables: Set<string> | null
+  ops: Set<ChangeOp> | null
+  callback: ChangeCallback
+  // changes up to here were committed before it subscribed. null until known.
+  since: number | null
+}
+
+interface ChangeFeed {
+  subscribers: Set<Subscriber>
+  // changes up to here were read. null until the first poll.
+  watermark: number | null
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const POLL_INTERVAL = 250
+const BATCH_SIZE = 1000
+
+const feeds = new WeakMap<PGlite, ChangeFeed>()
+
+function qualify(table: string): string {
+  return table.includes('.') ? table : `public.${table}`
+}
+
+function matches(subscriber: Subscriber, event: ChangeEvent): boolean {
+  if (subscriber.since === null || event.watermark <= subscriber.since) return false
+  if (subscriber.tables && !subscriber.tables.has(event.table)) return false
+  return !subscriber.ops || subscriber.ops.has(event.op)
+}
+
+async function deliver(subscriber: Subscriber, event: ChangeEvent) {
+  try {
+    await subscriber.callback(event)
+  } catch (err) {
+    log.orez(warning(`change subscriber failed on ${event.op} ${event.table}: ${err}`))
+  }
+}
+
+async function poll(db: PGlite, feed: ChangeFeed) {
+  const mutex = getInstanceMutex(db)
+  let full = false
+  try {
+    let events: ChangeEvent[] = []
+    await mutex.acquire()
+    try {
+      const current = await getCurrentWatermark(db)
+      feed.watermark ??= current
+      for (const subscriber of feed.subscribers) subscriber.since ??= current
+      const purged = getPurgedWatermark(db)
+      if (purged > feed.watermark) {
+        log.orez(
+          warning(
+            `change subscribers fell behind: changes up to watermark ${purged} were purged before they were read`
+          )
+        )
+        feed.watermark = purged
+      }
+      const changes = await getChangesSince(db, feed.watermark, BATCH_SIZE)
+      full = changes.length === BATCH_SIZE
+      if (changes.length > 0) feed.watermark = changes[changes.length - 1].watermark
+      events = changes.flatMap((change) =>
+        change.op === 'MESSAGE'
+          ? []
+          : [
+              {
+                table: change.table_name,
+                op: change.op,
+                row: change.op === 'TRUNCATE' ? null : change.row_data,
+                oldRow: change.op === 'TRUNCATE' ? null : change.old_data,
+                watermark: Number(change.watermark),
+                txid: Number(change.txid),
+                changedAt: change.changed_at,
+              },
+            ]
+      )
+    } finally {
+      mutex.release()
+    }
+
+    // in commit order, each subscriber after the previous one took the event
+    for (const event of events) {
+      for (const subscriber of feed.subscribers) {
+        if (matches(subscriber, event)) await deliver(subscriber, event)
+      }
+    }
+  } catch (err) {
+    log.debug.orez(`change feed poll failed: ${err}`)
+  }
+
+  // a closed instance ends its subscriptions
+  if (feed.subscribers.size === 0 || db.closed) {
+    if (feeds.get(db) === feed) feeds.delete(db)
+    return
+  }
+  feed.timer = setTimeout(() => poll(db, feed), full ? 0 : POLL_INTERVAL)
+}
+
+/**
+ * call `callback` with each change committed from now on that matches
+ * `filter`. returns a function that unsubscribes.
+ */
+export function subscribeChanges(
+  db: PGlite,
+  filter: ChangeFilter,
+  callback: ChangeCallback
+): () => void {
+  const subscriber: Subscriber = {
+    tables: filter.tables ? new Set(filter.tables.map(qualify)) : null,
+    ops: filter.ops ? new Set(filter.ops) : null,
+    callback,
+    since: null,
+  }
+  let feed = feeds.get(db)
+  if (!feed) {
+    const created: ChangeFeed = { subscribers: new Set(), watermark: null, timer: null }
+    created.timer = setTimeout(() => poll(db, created), 0)
+    feeds.set(db, created)
+    feed = created
+  }
+  feed.subscribers.add(subscriber)
+
+  return () => {
+    feed.subscribers.delete(subscriber)
+    if (feed.subscribers.size > 0) return
+    if (feed.timer) clearTimeout(feed.timer)
+    feed.timer = null
+    if (feeds.get(db) === feed) feeds.delete(db)
+  }
+}
@@ -5,8 +5,12 @@ import {
   installChangeTracking,
   installTriggersOnShardTables,
   purgeConsumedChanges,
+  purgeExpiredChanges,
   getChangesSince,
   getCurrentWatermark,
+  getSchemaVersion,
+  redirectLogicalMessages,
+  refreshChangeTracking,
 } from './change-tracker'
 
 describe('change-tracker', () => {
@@ -62,6 +66,55 @@ describe('change-tracker', () => {
     expect(changes[1].row_data).toBeNull()
   })
 
+  it('captures TRUNCATE with its options, cascaded tables included', async () => {
+    await db.exec(`
+      CREATE TABLE public.children (
+        id INTEGER PRIMARY KEY,
+        item_id INTEGER REFERENCES public.items (id)
+      )
+    `)
+    await installChangeTracking(db)
+    await db.exec(`TRUNCATE public.items RESTART IDENTITY CASCADE`)
+    await db.exec(`TRUNCATE public.children`)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => [c.op, c.table_name, c.row_data])).toEqual([
+      ['TRUNCATE', 'public.items', { cascade: true, restart_identity: true }],
+      ['TRUNCATE', 'public.children', { cascade: true, restart_identity: true }],
+      ['TRUNCATE', 'public.children', { cascade: false, restart_identity: false }],
+    ])
+    // the columns, so the table can be described without a row
+    expect(changes[0].old_data).toEqual({ id: null, name: null, value: null })
+  })
+
+  it('reads TRUNCATE options off its own statement in a multi-statement query', async () => {
+    await db.exec(`
+      CREATE TABLE public.children (
+        id INTEGER PRIMARY KEY,
+        item_id INTEGER REFERENCES public.items (id)
+      );
+      CREATE TABLE public.logs (line TEXT);
+    `)
+    await installChangeTracking(db)
+    await db.exec(`
+      -- TRUNCATE public.logs RESTART IDENTITY CASCADE;
+      INSERT INTO public.logs VALUES ('; TRUNCATE public.logs CASCADE'), ($x$ CASCADE $x$),
+        (E'\\'; TRUNCATE public.logs CASCADE');
+      TRUNCATE /* RESTART IDENTITY CASCADE */ public.logs;
+      TRUNCATE public.items CASCADE;
+      SELECT 'RESTART IDENTITY';
+    `)
+
+    const changes = await getChangesSince(db, 0)
+    expect(
+      changes.filter((c) => c.op === 'TRUNCATE').map((c) => [c.table_name, c.row_data])
+    ).toEqual([
+      ['public.logs', { cascade: false, restart_identity: false }],
+      ['public.items', { cascade: true, restart_identity: false }],
+      ['public.children', { cascade: true, restart_identity: false }],
+    ])
+  })
+
   it('watermarks increase monotonically', async () => {
     for (let i = 0; i < 5; i++) {
       await db.exec(`INSERT INTO public.items (name, value) VALUES ('item${i}', ${i})`)
@@ -109,6 +162,56 @@ describe('change-tracker', () => {
     expect(after).toBeGreaterThan(before)
   })
 
+  it('counts schema changes', async () => {
+    const before = await getSchemaVersion(db)
+    await db.exec(`ALTER TABLE public.items ADD COLUMN extra TEXT`)
+    expect(await getSchemaVersion(db)).toBeGreaterThan(before)
+
+    // plain writes don't count
+    const afterAlter = await getSchemaVersion(db)
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1)`)
+    expect(await getSchemaVersion(db)).toBe(afterAlter)
+  })
+
+  it('refreshChangeTracking records the rows of newly tracked tables', async () => {
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1)`)
+    await db.exec(`
+      CREATE TABLE public.fresh (id INTEGER PRIMARY KEY, label TEXT);
+      INSERT INTO public.fresh VALUES (1, 'seed');
+    `)
+    await refreshChangeTracking(db)
+    await db.exec(`INSERT INTO public.fresh VALUES (2, 'later')`)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => [c.table_name, c.row_data])).toEqual([
+      ['public.items', { id: 1, name: 'a', value: 1 }],
+      ['public.fresh', { id: 1, label: 'seed' }],
+      ['public.fresh', { id: 2, label: 'later' }],
+    ])
+  })
+
+  it("records zero-cache's logical messages once redirected", async () => {
+    await db.exec(`
+      CREATE SCHEMA zero_0;
+      CREATE TABLE zero_0."shardConfig" (lock BOOL PRIMARY KEY);
+      CREATE FUNCTION zero_0.emit(message TEXT) RETURNS void AS $$
+      BEGIN
+        PERFORM pg_logical_emit_message(true, 'zero/0', message);
+      END
+      $$ LANGUAGE plpgsql;
+    `)
+    await redirectLogicalMessages(db)
+    await db.exec(`SELECT zero_0.emit('{"type":"ddlStart"}')`)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toMatchObject({
+      op: 'MESSAGE',
+      table_name: 'zero/0',
+      row_data: { transactional: true, content: '{"type":"ddlStart"}' },
+    })
+  })
+
   it('tracks multiple tables', async () => {
     await db.exec(`CREATE TABLE public.other (id SERIAL PRIMARY KEY, label TEXT)`)
     await installChangeTracking(db) // reinstall picks up new table
@@ -190,6 +293,83 @@ describe('change-tracker', () => {
     expect(ops).toEqual(['INSERT', 'UPDATE', 'INSERT', 'DELETE'])
   })
 
+  it('purges consumed changes past the kept history', async () => {
+    for (let i = 0; i < 6; i++) {
+      await db.exec(`INSERT INTO public.items (name, value) VALUES ('item', ${i})`)
+    }
+    const [, second, third] = await getChangesSince(db, 0)
+    await db.query(
+      `UPDATE _orez._zero_changes SET changed_at = now() - interval '2 hours'
+       WHERE watermark <= $1`,
+      [third.watermark]
+    )
+
+    // old, but not consumed yet
+    expect(await purgeExpiredChanges(db, Number(second.watermark), { hours: 1 })).toEqual(
+      {
+        count: 2,
+        watermark: Number(second.watermark),
+      }
+    )
+    expect(await purgeExpiredChanges(db, 1e9, { hours: 1 })).toEqual({
+      count: 1,
+      watermark: Number(third.watermark),
+    })
+    expect(await purgeExpiredChanges(db, 1e9, { hours: 1 })).toEqual({
+      count: 0,
+      watermark: 0,
+    })
+
+    // the newest changes that fit, roughly two of them
+    const { count } = await purgeExpiredChanges(db, 1e9, { megabytes: 250 / 1024 / 1024 })
+    expect(count).toBeGreaterThan(0)
+    const kept = await getChangesSince(db, 0)
+    expect(kept.length).toBeGreaterThan(0)
+    expect(kept[kept.length - 1].row_data?.value).toBe(5)
+  })
+
+  it('keeps the newest changes that fit as the log grows and resets', async () => {
+    const insert = async (n: number) => {
+      for (let i = 0; i < n; i++) {
+        await db.exec(`INSERT INTO public.items (name, value) VALUES ('item', 1)`)
+      }
+    }
+    const kept = async () => (await getChangesSince(db, 0)).map((c) => c.watermark)
+    await insert(4)
+    const sizes = await db.query<{ size: number }>(
+      `SELECT pg_column_size(c.*) AS size FROM _orez._zero_changes c
+       ORDER BY watermark DESC LIMIT 2`
+    )
+    const twoRows = { megabytes: (sizes.rows[0].size + sizes.rows[1].size) / 1024 / 1024 }
+
+    expect((await purgeExpiredChanges(db, 1e9, twoRows)).count).toBe(2)
+    await insert(3)
+    const newest = (await kept()).slice(-2)
+    expect((await purgeExpiredChanges(db, 1e9, twoRows)).count).toBe(3)
+    expect(await kept()).toEqual(newest)
+
+    // emptied behind its back, like a reset does
+    await db.exec('TRUNCATE _orez._zero_changes')
+    await insert(3)
+    expect((await purgeExpiredChanges(db, 1e9, twoRows)).count).toBe(1)
+    expect(await kept()).toHaveLength(2)
+  })
+
+  it('captures writes by roles without access to _orez', async () => {
+    await db.exec(`
+      CREATE ROLE writer NOLOGIN;
+      GRANT INSERT ON public.items TO writer;
+      GRANT USAGE ON SEQUENCE public.items_id_seq TO writer;
+      SET ROLE writer;
+      INSERT INTO public.items (name, value) VALUES ('w', 1);
+      RESET ROLE;
+    `)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes).toHaveLength(1)
+    expect(changes[0].row_data).toMatchObject({ name: 'w' })
+  })
+
   it('tracks tables with special characters in names', async () => {
     await db.exec(`CREATE TABLE public."my""table" (id SERIAL PRIMARY KEY, val TEXT)`)
     await installChangeTracking(db)
@@ -315,3 +495,131 @@ describe('shard table tracking', () => {
     expect(changes[0].table_name).toBe('chat_0.clients')
   })
 })
+
+describe('statement change capture', () => {
+  let db: PGlite
+
+  beforeEach(async () => {
+    db = new PGlite()
+    await db.waitReady
+    await db.exec(`
+      CREATE TABLE public.items (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL
+      )
+    `)
+    await installChangeTracking(db, 'statement')
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  async function triggers(): Promise<string[]> {
+    const result = await db.query<{ tgname: string }>(
+      `SELECT tgname FROM pg_trigger
+       WHERE tgrelid = 'public.items'::regclass AND NOT tgisinternal
+       ORDER BY tgname`
+    )
+    return result.rows.map((r) => r.tgname)
+  }
+
+  it('installs statement triggers instead of the row trigger', async () => {
+    expect(await triggers()).toEqual([
+      '_zero_delete_trigger',
+      '_zero_insert_trigger',
+      '_zero_truncate_trigger',
+      '_zero_update_trigger',
+    ])
+  })
+
+  it('captures every row of a statement in order', async () => {
+    await db.exec(
+      `INSERT INTO public.items SELECT g, 'n' || g FROM generate_series(1, 5) g`
+    )
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => c.op)).toEqual(Array(5).fill('INSERT'))
+    expect(changes.map((c) => c.row_data!.id)).toEqual([1, 2, 3, 4, 5])
+    expect(new Set(changes.map((c) => c.txid)).size).toBe(1)
+  })
+
+  it('pairs the old and new rows of an update by key', async () => {
+    await db.exec(
+      `INSERT INTO public.items SELECT g, 'n' || g FROM generate_series(1, 5) g`
+    )
+    const start = await getCurrentWatermark(db)
+    await db.exec(`UPDATE public.items SET name = 'renamed ' || id WHERE id > 2`)
+
+    const changes = await getChangesSince(db, start)
+    expect(changes).toHaveLength(3)
+    for (const change of changes) {
+      expect(change.op).toBe('UPDATE')
+      const id = change.old_data!.id as number
+      expect(change.old_data).toEqual({ id, name: `n${id}` })
+      expect(change.row_data).toEqual({ id, name: `renamed ${id}` })
+    }
+  })
+
+  it('keeps a single key change an update, and splits several', async () => {
+    await db.exec(
+      `INSERT INTO public.items SELECT g, 'n' || g FROM generate_series(1, 3) g`
+    )
+    let start = await getCurrentWatermark(db)
+    await db.exec(`UPDATE public.items SET id = 10, name = 'moved' WHERE id = 1`)
+
+    let changes = await getChangesSince(db, start)
+    expect(changes.map((c) => [c.op, c.old_data, c.row_data])).toEqual([
+      ['UPDATE', { id: 1, name: 'n1' }, { id: 10, name: 'moved' }],
+    ])
+
+    // which old row became which new one is unknown, so the old rows are
+    // deleted and the new ones inserted, after the rows that kept their key
+    start = await getCurrentWatermark(db)
+    await db.exec(
+      `UPDATE public.items SET id = CASE WHEN id = 10 THEN 10 ELSE id + 100 END, name = 'x'`
+    )
+    changes = await getChangesSince(db, start)
+    expect(changes.map((c) => [c.op, c.old_data?.id, c.row_data?.id])).toEqual([
+      ['UPDATE', 10, 10],
+      ['DELETE', expect.any(Number), undefined],
+      ['DELETE', expect.any(Number), undefined],
+      ['INSERT', undefined, expect.any(Number)],
+      ['INSERT', undefined, expect.any(Number)],
+    ])
+    expect(new Set(changes.slice(1, 3).map((c) => c.old_data!.id))).toEqual(
+      new Set([2, 3])
+    )
+    expect(new Set(changes.slice(3).map((c) => c.row_data!.id))).toEqual(
+      new Set([102, 103])
+    )
+    expect(changes[3].row_data).toMatchObject({ name: 'x' })
+  })
+
+  it('captures DELETE and TRUNCATE', async () => {
+    await db.exec(`
+      INSERT INTO public.items VALUES (1, 'a'), (2, 'b');
+      DELETE FROM public.items WHERE id = 1;
+      TRUNCATE public.items;
+    `)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => c.op)).toEqual(['INSERT', 'INSERT', 'DELETE', 'TRUNCATE'])
+    expect(changes[2].old_data).toEqual({ id: 1, name: 'a' })
+  })
+
+  it('captures nothing for statements that change no rows', async () => {
+    await db.exec(`UPDATE public.items SET name = 'x' WHERE false`)
+    expect(await getChangesSince(db, 0)).toHaveLength(0)
+  })
+
+  it('switches back to row triggers', async () => {
+    await installChangeTracking(db, 'row')
+    expect(await triggers()).toEqual(['_zero_change_trigger', '_zero_truncate_trigger'])
+
+    // a table already tracked isn't recorded again
+    await refreshChangeTracking(db)
+    await db.exec(`INSERT INTO public.items VALUES (1, 'a')`)
+    expect(await getChangesSince(db, 0)).toHaveLength(1)
+  })
+})
@@ -1,18 +1,54 @@
 import { log } from '../log.js'
 
+import type { ChangeCapture, ChangeHistory } from '../config.js'
 import type { PGlite } from '@electric-sql/pglite'
 
 export interface ChangeRecord {
   id: number
   watermark: number
+  // txid_current() of the writing transaction
+  txid: number
+  // MESSAGE: the message prefix
   table_name: string
-  op: 'INSERT' | 'UPDATE' | 'DELETE'
+  op: 'INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE' | 'MESSAGE'
+  // TRUNCATE: its options, see TruncateOptions. MESSAGE: see LogicalMessage
   row_data: Record<string, unknown> | null
+  // TRUNCATE: every column of the table, all null
   old_data: Record<string, unknown> | null
   changed_at: string
+  // proxy connection and application_name of the writer, recorded while
+  // change history is kept
+  connection_id: number | null
+  application_name: string | null
 }
 
-export async function installChangeTracking(db: PGlite): Promise<void> {
+export interface TruncateOptions {
+  cascade: boolean
+  restart_identity: boolean
+}
+
+export interface LogicalMessage {
+  transactional: boolean
+  content: string
+}
+
+// capture mode of each instance, for reinstalls after schema changes
+const captureModes = new WeakMap<PGlite, ChangeCapture>()
+// instances keeping consumed changes for row history
+const changeHistories = new WeakMap<PGlite, ChangeHistory>()
+// running size of each instance's change log, as far as it's been summed up,
+// so a size limit doesn't take summing the whole log every purge
+const historySizes = new WeakMap<PGlite, { bytes: number; watermark: number }>()
+
+export async function installChangeTracking(
+  db: PGlite,
+  capture: ChangeCapture = 'row',
+  history: ChangeHistory | null = null
+): Promise<void> {
+  captureModes.set(db, capture)
+  if (history) changeHistories.set(db, history)
+  else changeHistories.delete(db)
+
   // use _orez schema for internal tables - survives pg_restore of public schema
   await db.exec(`CREATE SCHEMA IF NOT EXISTS _orez`)
 
@@ -23,6 +59,7 @@ export async function installChangeTracking(db: PGlite): Promise<void> {
     CREATE TABLE IF NOT EXISTS _orez._zero_changes (
       id BIGSERIAL PRIMARY KEY,
       watermark BIGINT NOT NULL DEFAULT nextval('_orez._zero_watermark'),
+      txid BIGINT NOT NULL DEFAULT txid_current(),
       table_name TEXT NOT NULL,
       op TEXT NOT NULL,
       row_data JSONB,
@@ -30,7 +67,20 @@ export async function installChangeTracking(db: PGlite): Promise<void> {
       changed_at TIMESTAMPTZ DEFAULT NOW()
     );
 
+    -- change logs from before transaction ids were recorded
+    ALTER TABLE _orez._zero_changes
+      ADD COLUMN IF NOT EXISTS txid BIGINT NOT NULL DEFAULT txid_current();
+
+    -- the writer, as the pg proxy announces it while change history is kept
+    ALTER TABLE _orez._zero_changes
+      ADD COLUMN IF NOT EXISTS connection_id INTEGER
+        DEFAULT nullif(current_setting('orez.connection_id', true), '')::integer,
+      ADD COLUMN IF NOT EXISTS application_name TEXT
+        DEFAULT nullif(current_setting('orez.application_name', true), '');
+
     CREATE INDEX IF NOT EXISTS _zero_changes_watermark_idx ON _orez._zero_changes (watermark);
+    -- expiring kept history by age
+    CREATE INDEX IF NOT EXISTS _zero_changes_changed_at_idx ON _orez._zero_changes (changed_at);
 
     CREATE TABLE IF NOT EXISTS _orez._zero_replication_slots (
       slot_name TEXT PRIMARY KEY,
@@ -45,11 +95,122 @@ export async function installChangeTracking(db: PGlite): Promise<void> {
     );
   `)
 
-  // create trigger function (writes to _orez schema)
+  // the options of a TRUNCATE, which triggers aren't passed. they're read off
+  // the query string, which can hold other statements, comments and literals:
+  // it's split into statements with those blanked out, and the TRUNCATE that
+  // names the table is matched, or the one that cascaded to it.
+  await db.exec(`
+    CREATE OR REPLACE FUNCTION _orez._zero_truncate_options(query TEXT, truncated TEXT)
+    RETURNS JSONB AS $$
+    DECLARE
+      chars TEXT[];
+      n INTEGER;
+      i INTEGER := 1;
+      j INTEGER;
+      stmt_start INTEGER := 1;
+      depth INTEGER;
+      tag TEXT;
+      escapes BOOLEAN;
+      stmt TEXT;
+      truncates TEXT[] := '{}';
+      chosen TEXT;
+    BEGIN
+      IF query IS NULL OR query !~* '\\m(CASCADE|RESTART)\\M' THEN
+        RETURN jsonb_build_object('cascade', false, 'restart_identity', false);
+      END IF;
+      chars := regexp_split_to_array(query, '');
+      n := array_length(chars, 1);
+      WHILE i <= n + 1 LOOP
+        IF i > n OR chars[i] = ';' THEN
+          stmt := array_to_string(chars[stmt_start:i - 1], '');
+          IF stmt ~* '^\\s*TRUNCATE\\M' THEN
+            truncates := truncates || stmt;
+          END IF;
+          i := i + 1;
+          stmt_start := i;
+          CONTINUE;
+        END IF;
+
+        -- j ends the comment or literal starting at i, if any
+        j := NULL;
+        IF chars[i] = '-' AND chars[i + 1] = '-' THEN
+          j := i + 2;
+          WHILE j <= n AND chars[j] <> E'\\n' LOOP j := j + 1; END LOOP;
+        ELSIF chars[i] = '/' AND chars[i + 1] = '*' THEN
+          j := i + 2;
+          depth := 1;
+          WHILE j <= n AND depth > 0 LOOP
+            IF chars[j] = '/' AND chars[j + 1] = '*' THEN
+              depth := depth + 1;
+              j := j + 1;
+            ELSIF chars[j] = '*' AND chars[j + 1] = '/' THEN
+              depth := depth - 1;
+              j := j + 1;
+            END IF;
+            j := j + 1;
+          END LOOP;
+        ELSIF chars[i] = '''' THEN
+          -- E'' strings escape with backslashes. a doubled quote reads as two
+          -- literals back to back, which blank out the same.
+          escapes := i > 1 AND chars[i - 1] IN ('E', 'e')
+            AND (i = 2 OR chars[i - 2] !~ '[[:alnum:]_$]');
+          j := i + 1;
+          WHILE j <= n AND chars[j] <> '''' LOOP
+            j := j + CASE WHEN escapes AND chars[j] = '\\' THEN 2 ELSE 1 END;
+          END LOOP;
+          j := j + 1;
+        ELSIF chars[i] = '$' AND (i = 1 OR chars[i - 1] !~ '[[:alnum:]_$]') THEN
+          tag := substring(
+            array_to_string(chars[i:i + 64], '') FROM '^\\$(?:[A-Za-z_][A-Za-z_0-9]*)?\\$'
+          );
+          IF tag IS NOT NULL THEN
+            j := i + length(tag);
+            WHILE j <= n AND array_to_string(chars[j:j + length(tag) - 1], '') <> tag LOOP
+              j := j + 1;
+            END LOOP;
+            j := j + length(tag);
+          END IF;
+        ELSIF chars[i] = '"' THEN
+          -- quoted identifiers are kept, they may name the table
+          i := i + 1;
+          WHILE i <= n AND chars[i] <> '"' LOOP i := i + 1; END LOOP;
+        END IF;
+
+        IF j IS NULL THEN
+          i := i + 1;
+        ELSE
+          j := least(j, n + 1);
+          FOR k IN i..j - 1 LOOP chars[k] := ' '; END LOOP;
+          i := j;
+        END IF;
+      END LOOP;
+
+      IF array_length(truncates, 1) > 1 THEN
+        SELECT t INTO chosen FROM unnest(truncates) WITH ORDINALITY AS s (t, o)
+        WHERE lower(truncated) = ANY (regexp_split_to_array(lower(t), '[\\s,."()]+'))
+        ORDER BY o LIMIT 1;
+        IF chosen IS NULL THEN
+          SELECT t INTO chosen FROM unnest(truncates) WITH ORDINALITY AS s (t, o)
+          WHERE t ~* '\\mCASCADE\\M'
+          ORDER BY o LIMIT 1;
+        END IF;
+      END IF;
+      chosen := coalesce(chosen, truncates[1], '');
+      RETURN jsonb_build_object(
+        'cascade', chosen ~* '\\mCASCADE\\M',
+        'restart_identity', chosen ~* '\\mRESTART\\s+IDENTITY\\M'
+      );
+    END;
+    $$ LANGUAGE plpgsql;
+  `)
+
+  // create trigger function (writes to _orez schema). SECURITY DEFINER so
+  // writes by restricted proxy users are tracked without access to _orez.
   await db.exec(`
     CREATE OR REPLACE FUNCTION public._zero_track_change() RETURNS TRIGGER AS $$
     DECLARE
       qualified_name TEXT;
+      columns JSONB;
     BEGIN
       qualified_name := TG_TABLE_SCHEMA || '.' || TG_TABLE_NAME;
       IF TG_OP = 'DELETE' THEN
@@ -64,21 +225,226 @@ export async function installChangeTracking(db: PGlite): Promise<void> {
         INSERT INTO _orez._zero_changes (table_name, op, row_data)
         VALUES (qualified_name, 'INSERT', row_to_json(NEW)::jsonb);
         RETURN NEW;
+      ELSIF TG_OP = 'TRUNCATE' THEN
+        -- fires once per truncated table, cascaded ones included
+        EXECUTE format(
+          'SELECT to_jsonb(jsonb_populate_record(NULL::%I.%I, ''{}''))',
+          TG_TABLE_SCHEMA, TG_TABLE_NAME
+        ) INTO columns;
+        INSERT INTO _orez._zero_changes (table_name, op, row_data, old_data)
+        VALUES (qualified_name, 'TRUNCATE',
+          _orez._zero_truncate_options(current_query(), TG_TABLE_NAME), columns);
+        RETURN NULL;
       END IF;
       RETURN NULL;
     END;
-    $$ LANGUAGE plpgsql;
+    $$ LANGUAGE plpgsql SECURITY DEFINER;
+  `)
+
+  // statement capture: one set-based insert per statement from its transition
+  // tables. the old and new rows of an UPDATE are paired by replica identity,
+  // see below.
+  await db.exec(`
+    CREATE OR REPLACE FUNCTION public._zero_track_statement() RETURNS TRIGGER AS $$
+    DECLARE
+      qualified_name TEXT;
+      keys TEXT[];
+    BEGIN
+      qualified_name := TG_TABLE_SCHEMA || '.' || TG_TABLE_NAME;
+      IF TG_OP = 'DELETE' THEN
+        INSERT INTO _orez._zero_changes (table_name, op, old_data)
+        SELECT qualified_name, 'DELETE', row_to_json(o)::jsonb FROM old_rows o;
+      ELSIF TG_OP = 'UPDATE' THEN
+        -- the replica identity: the primary key, or the index it names
+        SELECT array_agg(a.attname::text ORDER BY a.attnum) INTO keys
+        FROM pg_class c
+        JOIN pg_index i ON i.indrelid = c.oid AND CASE c.relreplident
+          WHEN 'd' THEN i.indisprimary WHEN 'i' THEN i.indisreplident ELSE false END
+        JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = ANY (i.indkey)
+        WHERE c.oid = TG_RELID;
+
+        -- rows are paired by key. rows whose key changed can't be told apart,
+        -- unless there's only one: the others become a DELETE and an INSERT.
+        INSERT INTO _orez._zero_changes (table_name, op, row_data, old_data)
+        WITH n AS (
+          SELECT row_number() OVER () AS i, d AS data,
+            (SELECT jsonb_agg(d -> k) FROM unnest(keys) k) AS key
+          FROM new_rows t, LATERAL (SELECT row_to_json(t)::jsonb AS d) r
+        ), o AS (
+          SELECT row_number() OVER () AS i, d AS data,
+            (SELECT jsonb_agg(d -> k) FROM unnest(keys) k) AS key
+          FROM old_rows t, LATERAL (SELECT row_to_json(t)::jsonb AS d) r
+        ), pairs AS (
+          SELECT n.i AS new_i, o.i AS old_i, n.data AS new_data, o.data AS old_data
+          FROM n FULL JOIN o ON n.key = o.key
+        ), lone AS (
+          SELECT n.new_data, o.old_data
+          FROM pairs n, pairs o
+          WHERE n.old_i IS NULL AND o.new_i IS NULL
+            AND (SELECT count(*) FROM pairs WHERE old_i IS NULL OR new_i IS NULL) = 2
+        )
+        SELECT qualified_name, op, row_data, old_data FROM (
+          SELECT 1 AS part, new_i AS i, 'UPDATE' AS op, new_data AS row_data, old_data
+          FROM pairs WHERE new_i IS NOT NULL AND old_i IS NOT NULL
+          UNION ALL
+          SELECT 2, 0, 'UPDATE', new_data, old_data FROM lone
+          UNION ALL
+          SELECT 3, old_i, 'DELETE', NULL, old_data
+          FROM pairs WHERE new_i IS NULL AND NOT EXISTS (SELECT FROM lone)
+          UNION ALL
+          SELECT 4, new_i, 'INSERT', new_data, NULL
+          FROM pairs WHERE old_i IS NULL AND NOT EXISTS (SELECT FROM lone)
+        ) changes
+        ORDER BY part, i;
+      ELSIF TG_OP = 'INSERT' THEN
+        INSERT INTO _orez._zero_changes (table_name, op, row_data)
+        SELECT qualified_name, 'INSERT', row_to_json(n)::jsonb FROM new_rows n;
+      END IF;
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql SECURITY DEFINER;
+  `)
+
+  // count DDL statements, so the replicator notices schema changes
+  await db.exec(`
+    CREATE SEQUENCE IF NOT EXISTS _orez._zero_schema_version;
+
+    CREATE OR REPLACE FUNCTION _orez._zero_schema_changed() RETURNS event_trigger AS $$
+    BEGIN
+      PERFORM nextval('_orez._zero_schema_version');
+    END;
+    $$ LANGUAGE plpgsql SECURITY DEFINER;
+  `)
+  const eventTrigger = await db.query(
+    `SELECT 1 FROM pg_event_trigger WHERE evtname = '_orez_schema_change'`
+  )
+  if (eventTrigger.rows.length === 0) {
+    await db.exec(`
+      CREATE EVENT TRIGGER _orez_schema_change ON ddl_command_end
+        EXECUTE FUNCTION _orez._zero_schema_changed();
+    `)
+  }
+
+  // stand-in for pg_logical_emit_message, see redirectLogicalMessages
+  await db.exec(`
+    CREATE OR REPLACE FUNCTION _orez._zero_emit_message(
+      transactional BOOLEAN, prefix TEXT, content TEXT
+    ) RETURNS pg_lsn AS $$
+    BEGIN
+      INSERT INTO _orez._zero_changes (table_name, op, row_data)
+      VALUES (prefix, 'MESSAGE', jsonb_build_object(
+        'transactional', transactional, 'content', content
+      ));
+      RETURN pg_current_wal_lsn();
+    END;
+    $$ LANGUAGE plpgsql SECURITY DEFINER;
   `)
 
   // install triggers on all public tables
   await installTriggersOnAllTables(db)
 }
 
+/**
+ * re-install triggers after a schema change. tables tracked for the first
+ * time get their current rows recorded as inserts: zero-cache only learns of
+ * them now, and rows written before had no trigger to capture them.
+ */
+export async function refreshChangeTracking(db: PGlite): Promise<void> {
+  const added = await installTriggersOnAllTables(db)
+  for (const tablename of added) {
+    await db.query(
+      `INSERT INTO _orez._zero_changes (table_name, op, row_data)
+       SELECT $1, 'INSERT', row_to_json(t)::jsonb FROM public.${quoteIdent(tablename)} t`,
+      [`public.${tablename}`]
+    )
+  }
+  await installTriggersOnShardTables(db)
+}
+
+/**
+ * zero-cache's DDL event triggers announce schema changes with
+ * pg_logical_emit_message, which pglite accepts and drops. point its functions
+ * at _orez._zero_emit_message instead, so the announcements reach zero-cache
+ * in the replication stream, in order with the changes around them.
+ */
+export async function redirectLogicalMessages(db: PGlite): Promise<void> {
+  const result = await db.query<{ definition: string }>(
+    `SELECT pg_get_functiondef(p.oid) AS definition
+     FROM pg_proc p
+     JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE p.prosrc LIKE '%pg_logical_emit_message(%'
+       AND EXISTS (
+         SELECT 1 FROM pg_tables t
+         WHERE t.schemaname = n.nspname AND t.tablename = 'shardConfig'
+       )`
+  )
+  for (const { definition } of result.rows) {
+    await db.exec(
+      definition.replace(/\bpg_logical_emit_message\(/g, '_orez._zero_emit_message(')
+    )
+  }
+  if (result.rows.length > 0) {
+    log.debug.pglite(`redirected logical messages of ${result.rows.length} functions`)
+  }
+}
+
+export async function getSchemaVersion(db: PGlite): Promise<number> {
+  const result = await db.query<{ last_value: string; is_called: boolean }>(
+    'SELECT last_value, is_called FROM _orez._zero_schema_version'
+  )
+  const { last_value, is_called } = result.rows[0]
+  return is_called ? Number(last_value) : 0
+}
+
 function quoteIdent(name: string): string {
   return '"' + name.replace(/"/g, '""') + '"'
 }
 
-async function installTriggersOnAllTables(db: PGlite): Promise<void> {
+// triggers of either capture mode, and the truncate trigger they share
+const TRACKING_TRIGGERS = [
+  '_zero_change_trigger',
+  '_zero_insert_trigger',
+  '_zero_update_trigger',
+  '_zero_delete_trigger',
+  '_zero_truncate_trigger',
+]
+
+function dropTrackingTriggers(table: string): string {
+  return TRACKING_TRIGGERS.map(
+    (name) => `DROP TRIGGER IF EXISTS ${name} ON ${table};`
+  ).join('\n')
+}
+
+function createTrackingTriggers(table: string, capture: ChangeCapture): string {
+  const changes =
+    capture === 'statement'
+      ? `
+      CREATE TRIGGER _zero_insert_trigger
+        AFTER INSERT ON ${table} REFERENCING NEW TABLE AS new_rows
+        FOR EACH STATEMENT EXECUTE FUNCTION public._zero_track_statement();
+      CREATE TRIGGER _zero_update_trigger
+        AFTER UPDATE ON ${table} REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+        FOR EACH STATEMENT EXECUTE FUNCTION public._zero_track_statement();
+      CREATE TRIGGER _zero_delete_trigger
+        AFTER DELETE ON ${table} REFERENCING OLD TABLE AS old_rows
+        FOR EACH STATEMENT EXECUTE FUNCTION public._zero_track_statement();`
+      : `
+      CREATE TRIGGER _zero_change_trigger
+        AFTER INSERT OR UPDATE OR DELETE ON ${table}
+        FOR EACH ROW EXECUTE FUNCTION public._zero_track_change();`
+  return `
+      ${dropTrackingTriggers(table)}${changes}
+      CREATE TRIGGER _zero_truncate_trigger
+        AFTER TRUNCATE ON ${table}
+        FOR EACH STATEMENT EXECUTE FUNCTION public._zero_track_change();
+    `
+}
+
+// returns the tables that weren't tracked before. triggers are created for the
+// capture mode the instance was set up with.
+async function installTriggersOnAllTables(db: PGlite): Promise<string[]> {
+  const capture = captureModes.get(db) ?? 'row'
+
   // If a publication is configured, respect it strictly. This avoids accidentally
   // streaming private tables when publication membership is temporarily empty.
   const pubName = process.env.ZERO_APP_PUBLICATIONS?.trim()
@@ -113,32 +479,27 @@ async function installTriggersOnAllTables(db: PGlite): Promise<void> {
   const publishedSet = new Set(tables.map((t) => t.tablename))
   const allTriggered = await db.query<{ event_object_table: string }>(
     `SELECT DISTINCT event_object_table FROM information_schema.triggers
-     WHERE trigger_name = '_zero_change_trigger'
+     WHERE trigger_name IN ('_zero_change_trigger', '_zero_insert_trigger')
        AND event_object_schema = 'public'`
   )
   for (const { event_object_table } of allTriggered.rows) {
     if (!publishedSet.has(event_object_table)) {
-      const quoted = quoteIdent(event_object_table)
-      await db.exec(`DROP TRIGGER IF EXISTS _zero_change_trigger ON public.${quoted}`)
+      await db.exec(dropTrackingTriggers(`public.${quoteIdent(event_object_table)}`))
       log.debug.pglite(
         `removed stale trigger from non-published table: ${event_object_table}`
       )
     }
   }
 
+  const triggered = new Set(allTriggered.rows.map((r) => r.event_object_table))
   let count = 0
   for (const { tablename } of tables) {
-    const quoted = quoteIdent(tablename)
-    await db.exec(`
-      DROP TRIGGER IF EXISTS _zero_change_trigger ON public.${quoted};
-      CREATE TRIGGER _zero_change_trigger
-        AFTER INSERT OR UPDATE OR DELETE ON public.${quoted}
-        FOR EACH ROW EXECUTE FUNCTION public._zero_track_change();
-    `)
+    await db.exec(createTrackingTriggers(`public.${quoteIdent(tablename)}`, capture))
     count++
   }
 
-  log.debug.pglite(`installed change tracking triggers on ${count} tables`)
+  log.debug.pglite(`installed ${capture} change tracking triggers on ${count} tables`)
+  return tables.map((t) => t.tablename).filter((t) => !triggered.has(t))
 }
 
 /**
@@ -176,7 +537,10 @@ export async function installTriggersOnShardTables(db: PGlite): Promise<void> {
     for (const { event_object_table } of stale.rows) {
       const qs = quoteIdent(nspname)
       const qt = quoteIdent(event_object_table)
-      await db.exec(`DROP TRIGGER IF EXISTS _zero_change_trigger ON ${qs}.${qt}`)
+      await db.exec(`
+        DROP TRIGGER IF EXISTS _zero_change_trigger ON ${qs}.${qt};
+        DROP TRIGGER IF EXISTS _zero_truncate_trigger ON ${qs}.${qt};
+      `)
       log.debug.pglite(
         `removed stale shard trigger from ${nspname}.${event_object_table}`
       )
@@ -195,6 +559,10 @@ export async function installTriggersOnShardTables(db: PGlite): Promise<void> {
         CREATE TRIGGER _zero_change_trigger
           AFTER INSERT OR UPDATE OR DELETE ON ${quotedSchema}.${quotedTable}
           FOR EACH ROW EXECUTE FUNCTION public._zero_track_change();
+        DROP TRIGGER IF EXISTS _zero_truncate_trigger ON ${quotedSchema}.${quotedTable};
+        CREATE TRIGGER _zero_truncate_trigger
+          AFTER TRUNCATE ON ${quotedSchema}.${quotedTable}
+          FOR EACH STATEMENT EXECUTE FUNCTION public._zero_track_change();
       `)
       count++
     }
@@ -205,8 +573,14 @@ export async function installTriggersOnShardTables(db: PGlite): Promise<void> {
   }
 }
 
+// what reading the change log needs: a pglite instance, or a client connected
+// to a running orez (`orez changes`)
+export interface ChangeLogReader {
+  query<T>(query: string, params?: unknown[]): Promise<{ rows: T[] }>
+}
+
 export async function getChangesSince(
-  db: PGlite,
+  db: ChangeLogReader,
   watermark: number,
   limit = 1000
 ): Promise<ChangeRecord[]> {
@@ -217,6 +591,16 @@ export async function getChangesSince(
   return result.rows
 }
 
+// watermark of a transaction's last change. transactions are only read once
+// committed, so this is final.
+export async function getTransactionEnd(db: PGlite, txid: number): Promise<number> {
+  const result = await db.query<{ watermark: number }>(
+    'SELECT max(watermark) AS watermark FROM _orez._zero_changes WHERE txid = $1',
+    [txid]
+  )
+  return Number(result.rows[0]?.watermark ?? 0)
+}
+
 export async function purgeConsumedChanges(
   db: PGlite,
   watermark: number
@@ -228,6 +612,98 @@ export async function purgeConsumedChanges(
   return Number(result.rows[0]?.count || 0)
 }
 
+/** how much consumed history an instance keeps, null if it purges right away. */
+export function getChangeHistory(db: PGlite): ChangeHistory | null {
+  return changeHistories.get(db) ?? null
+}
+
+/**
+ * purge consumed changes, up to `watermark`, that fell out of the kept
+ * history. purges a prefix of the log, returns how many changes it deleted and
+ * the watermark everything up to is gone.
+ */
+export async function purgeExpiredChanges(
+  db: PGlite,
+  watermark: number,
+  history: ChangeHistory
+): Promise<{ count: number; watermark: number }> {
+  let expired = 0
+  if (history.hours !== undefined) {
+    const result = await db.query<{ watermark: string | null }>(
+      `SELECT max(watermark)::text AS watermark FROM _orez._zero_changes
+       WHERE changed_at < now() - make_interval(secs => $1)`,
+      [history.hours * 3600]
+    )
+    expired = Math.max(expired, Number(result.rows[0]?.watermark ?? 0))
+  }
+  if (history.megabytes !== undefined) {
+    // oldest first, until what's left fits
+    const size = await sumChangeLogSize(db)
+    const excess = size.bytes - Math.floor(history.megabytes * 1024 * 1024)
+    if (excess > 0) {
+      const result = await db.query<{ watermark: number }>(
+        `SELECT watermark FROM (
+           SELECT watermark, sum(pg_column_size(c.*)) OVER (ORDER BY watermark) AS size
+           FROM _orez._zero_changes c
+         ) s WHERE size >= $1 ORDER BY watermark LIMIT 1`,
+        [excess]
+      )
+      // past what's there the running size is off, everything goes
+      expired = Math.max(
+        expired,
+        result.rows[0] ? Number(result.rows[0].watermark) : Infinity
+      )
+    }
+  } else {
+    historySizes.delete(db)
+  }
+  const upTo = Math.min(expired, watermark)
+  if (upTo <= 0) return { count: 0, watermark: 0 }
+  const result = await db.query<{ count: string; bytes: string }>(
+    `WITH deleted AS (
+       DELETE FROM _orez._zero_changes c WHERE watermark <= $1
+       RETURNING pg_column_size(c.*) AS size
+     )
+     SELECT count(*)::text AS count, coalesce(sum(size), 0)::text AS bytes FROM deleted`,
+    [upTo]
+  )
+  const size = historySizes.get(db)
+  if (size) size.bytes -= Number(result.rows[0].bytes)
+  return { count: Number(result.rows[0].count), watermark: upTo }
+}
+
+// bring the running size of the change log up to date with the changes written
+// since it was last summed up
+async function sumChangeLogSize(
+  db: PGlite
+): Promise<{ bytes: number; watermark: number }> {
+  let size = historySizes.get(db)
+  // a log emptied some other way (a reset, recovery) is summed up afresh
+  const oldest = await db.query<{ watermark: string | null }>(
+    'SELECT min(watermark)::text AS watermark FROM _orez._zero_changes'
+  )
+  const first = oldest.rows[0]?.watermark
+  if (!size || first == null || Number(first) > size.watermark) {
+    size = { bytes: 0, watermark: 0 }
+    historySizes.set(db, size)
+  }
+  const added = await db.query<{ bytes: string | null; watermark: string | null }>(
+    `SELECT sum(pg_column_size(c.*))::text AS bytes, max(watermark)::text AS watermark
+     FROM _orez._zero_changes c WHERE watermark > $1`,
+    [size.watermark]
+  )
+  size.bytes += Number(added.rows[0]?.bytes ?? 0)
+  size.watermark = Math.max(size.watermark, Number(added.rows[0]?.watermark ?? 0))
+  return size
+}
+
+export async function countChanges(db: PGlite): Promise<number> {
+  const result = await db.query<{ count: string }>(
+    'SELECT count(*)::text AS count FROM _orez._zero_changes'
+  )
+  return Number(result.rows[0]?.count || 0)
+}
+
 export async function getCurrentWatermark(db: PGlite): Promise<number> {
   const result = await db.query<{ last_value: string; is_called: boolean }>(
     'SELECT last_value, is_called FROM _orez._zero_watermark'
@@ -0,0 +1,92 @@
+import { PGlite } from '@electric-sql/pglite'
+import { citext } from '@electric-sql/pglite/contrib/citext'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+
+import { FIRST_NON_BUILTIN_OID, loadColumnTypes, type ColumnType } from './column-types'
+
+describe('column-types', () => {
+  let db: PGlite
+  let columns: Map<string, ColumnType>
+
+  beforeEach(async () => {
+    db = new PGlite({ extensions: { citext } })
+    await db.waitReady
+    await db.exec(`
+      CREATE EXTENSION citext;
+      CREATE TYPE public.mood AS ENUM ('happy', 'sad');
+      CREATE DOMAIN public.positive AS integer CHECK (VALUE > 0);
+      CREATE TYPE public.pair AS (a integer, b integer);
+      CREATE TABLE public.items (
+        id TEXT PRIMARY KEY,
+        count INTEGER,
+        mood public.mood,
+        moods public.mood[],
+        tags TEXT[],
+        scores INTEGER[],
+        quantity public.positive,
+        quantities public.positive[],
+        email CITEXT,
+        search TSVECTOR,
+        pair public.pair
+      );
+      ALTER TABLE public.items DROP COLUMN count;
+    `)
+    columns = (await loadColumnTypes(db, 'public')).get('public.items')!
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  async function typeOid(name: string): Promise<number> {
+    const result = await db.query<{ oid: number }>(`SELECT $1::regtype::oid AS oid`, [
+      name,
+    ])
+    return result.rows[0].oid
+  }
+
+  it('resolves builtin types and skips dropped columns', () => {
+    expect(columns.get('id')).toMatchObject({ typeOid: 25, isArray: false })
+    expect(columns.has('count')).toBe(false)
+  })
+
+  it('keeps the oid of enums and their arrays', async () => {
+    expect(columns.get('mood')).toMatchObject({
+      typeOid: await typeOid('public.mood'),
+      typeSchema: 'public',
+      typeName: 'mood',
+      isArray: false,
+      unsupported: null,
+    })
+    expect(columns.get('mood')!.typeOid).toBeGreaterThanOrEqual(FIRST_NON_BUILTIN_OID)
+    expect(columns.get('moods')).toMatchObject({
+      typeOid: await typeOid('public.mood[]'),
+      typeName: '_mood',
+      isArray: true,
+      unsupported: null,
+    })
+  })
+
+  it('marks arrays of builtin types', () => {
+    expect(columns.get('tags')).toMatchObject({ typeOid: 1009, isArray: true })
+    expect(columns.get('scores')).toMatchObject({ typeOid: 1007, isArray: true })
+  })
+
+  it('resolves domains to their base type', () => {
+    expect(columns.get('quantity')).toMatchObject({ typeOid: 23, isArray: false })
+    expect(columns.get('quantities')).toMatchObject({ typeOid: 1007, isArray: true })
+  })
+
+  it('keeps the oid of extension types', async () => {
+    expect(columns.get('email')).toMatchObject({
+      typeOid: await typeOid('citext'),
+      typeName: 'citext',
+      unsupported: null,
+    })
+  })
+
+  it('marks columns zero-cache cannot store', () => {
+    expect(columns.get('search')!.unsupported).toMatch(/full text search/)
+    expect(columns.get('pair')!.unsupported).toMatch(/composite/)
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * column types for replication.
+ *
+ * resolves the type of each column from pg_type, so RELATION messages carry the
+ * oids zero-cache picks value parsers by: enums, arrays, citext and other
+ * extension types keep their own oid, domains take their base type's.
+ */
+
+import { log, warning } from '../log.js'
+
+import type { PGlite } from '@electric-sql/pglite'
+
+// oids of builtin types are below this (FirstGenbkiObjectId). pgoutput
+// describes any other type with a Type message before a relation using it.
+export const FIRST_NON_BUILTIN_OID = 10000
+
+export interface ColumnType {
+  typeOid: number
+  // for Type messages
+  typeSchema: string
+  typeName: string
+  // values are sent as array literals
+  isArray: boolean
+  // why zero-cache can't take the column's values, if it can't
+  unsupported: string | null
+}
+
+interface PgType {
+  oid: number
+  typname: string
+  nspname: string
+  typtype: string
+  typcategory: string
+  typelem: number
+  typbasetype: number
+  typarray: number
+}
+
+// types with no text form zero-cache can store
+const UNSUPPORTED_TYPES: Record<string, string> = {
+  tsvector: 'full text search vectors are not supported',
+  tsquery: 'full text search queries are not supported',
+}
+
+function resolveType(types: Map<number, PgType>, oid: number): ColumnType | null {
+  const type = types.get(oid)
+  if (!type) return null
+
+  // a domain replicates as its base type
+  if (type.typtype === 'd') return resolveType(types, type.typbasetype)
+
+  if (type.typcategory === 'A' && type.typelem !== 0) {
+    const element = resolveType(types, type.typelem)
+    if (!element) return null
+    // an array of a domain is sent as an array of its base type
+    const arrayOid =
+      element.typeOid === type.typelem ? oid : types.get(element.typeOid)?.typarray
+    const array = arrayOid ? types.get(arrayOid) : undefined
+    if (!array) return null
+    return {
+      typeOid: array.oid,
+      typeSchema: array.nspname,
+      typeName: array.typname,
+      isArray: true,
+      unsupported: element.unsupported,
+    }
+  }
+
+  let unsupported = UNSUPPORTED_TYPES[type.typname] ?? null
+  if (type.typtype === 'c') unsupported = 'composite types are not supported'
+  return {
+    typeOid: type.oid,
+    typeSchema: type.nspname,
+    typeName: type.typname,
+    isArray: false,
+    unsupported,
+  }
+}
+
+// columns already warned about, so reloads don't repeat it
+const warned = new Set<string>()
+
+/**
+ * the types of the columns of every table in a schema, keyed by
+ * `schema.table` and column name. warns once about each column whose values
+ * can't be replicated.
+ */
+export async function loadColumnTypes(
+  db: PGlite,
+  schema: string
+): Promise<Map<string, Map<string, ColumnType>>> {
+  const typeResult = await db.query<PgType>(
+    `SELECT t.oid, t.typname, n.nspname, t.typtype, t.typcategory,
+            t.typelem, t.typbasetype, t.typarray
+     FROM pg_type t
+     JOIN pg_namespace n ON n.oid = t.typnamespace`
+  )
+  const types = new Map(typeResult.rows.map((type) => [type.oid, type]))
+
+  const columnResult = await db.query<{
+    table_name: string
+    column_name: string
+    type_oid: number
+  }>(
+    `SELECT c.relname AS table_name, a.attname AS column_name, a.atttypid AS type_oid
+     FROM pg_attribute a
+     JOIN pg_class c ON c.oid = a.attrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1
+       AND c.relkind IN ('r', 'p')
+       AND a.attnum > 0
+       AND NOT a.attisdropped`,
+    [schema]
+  )
+
+  const tables = new Map<string, Map<string, ColumnType>>()
+  for (const { table_name, column_name, type_oid } of columnResult.rows) {
+    const type = resolveType(types, type_oid)
+    if (!type) continue
+    const key = `${schema}.${table_name}`
+    let columns = tables.get(key)
+    if (!columns) {
+      columns = new Map()
+      tables.set(key, columns)
+    }
+    columns.set(column_name, type)
+
+    const column = `${key}.${column_name}`
+    if (type.unsupported && !warned.has(column)) {
+      warned.add(column)
+      log.proxy(
+        warning(
+          `not replicating column ${column} (${type.typeName}): ${type.unsupported}`
+        )
+      )
+    }
+  }
+  return tables
+}
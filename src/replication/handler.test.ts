@@ -4,8 +4,11 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { Mutex } from '../mutex'
 import { installChangeTracking } from './change-tracker'
 import {
+  createStandbyStatusHandler,
+  getReplicationStatus,
   handleReplicationQuery,
   handleStartReplication,
+  waitForReplication,
   type ReplicationWriter,
 } from './handler'
 
@@ -79,6 +82,22 @@ describe('handleReplicationQuery', () => {
     expect(slots.rows).toHaveLength(1)
   })
 
+  it('CREATE_REPLICATION_SLOT refuses to replace an existing slot', async () => {
+    const query = 'CREATE_REPLICATION_SLOT "taken" LOGICAL pgoutput'
+    await handleReplicationQuery(query, db)
+    await db.query(
+      `UPDATE _orez._zero_replication_slots SET confirmed_flush_lsn = '0/2000000'`
+    )
+
+    const res = await handleReplicationQuery(query, db)
+    expect(res![0]).toBe(0x45) // 'E'
+    expect(new TextDecoder().decode(res!)).toContain('42710')
+    const slots = await db.query<{ confirmed_flush_lsn: string }>(
+      `SELECT confirmed_flush_lsn FROM _orez._zero_replication_slots`
+    )
+    expect(slots.rows).toEqual([{ confirmed_flush_lsn: '0/2000000' }])
+  })
+
   it('DROP_REPLICATION_SLOT removes slot', async () => {
     await handleReplicationQuery(
       'CREATE_REPLICATION_SLOT "drop_me" TEMPORARY LOGICAL pgoutput',
@@ -340,4 +359,496 @@ describe('handleStartReplication', () => {
     expect(begins).toBe(commits)
     expect(begins).toBeGreaterThanOrEqual(1)
   }, 10_000)
+
+  // lsn at the given offset of a pgoutput message in a CopyData(XLogData(msg)) frame
+  function payloadLsn(msg: Uint8Array, offset: number): bigint {
+    return new DataView(msg.buffer, msg.byteOffset).getBigUint64(31 + offset)
+  }
+
+  it('streams each source transaction as one BEGIN/COMMIT', async () => {
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+
+    // all between two polls, so they're read in one batch
+    await db.exec(`
+      BEGIN;
+      INSERT INTO public.items (name, value) VALUES ('a', 1);
+      INSERT INTO public.items (name, value) VALUES ('b', 2);
+      COMMIT;
+    `)
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('c', 3)`)
+    await db.exec(`UPDATE public.items SET value = value + 10`)
+    await new Promise((r) => setTimeout(r, 700))
+
+    const frames = written.filter((msg) => payloadType(msg) !== null)
+    const types = frames.map(payloadType)
+    expect(types.filter((t) => t !== 0x52)).toEqual([
+      0x42, 0x49, 0x49, 0x43, 0x42, 0x49, 0x43, 0x42, 0x55, 0x55, 0x55, 0x43,
+    ])
+
+    const begins = frames.filter((msg) => payloadType(msg) === 0x42)
+    const commits = frames.filter((msg) => payloadType(msg) === 0x43)
+    for (let i = 0; i < begins.length; i++) {
+      // BEGIN's final lsn is the COMMIT's commit lsn
+      expect(payloadLsn(begins[i], 0)).toBe(payloadLsn(commits[i], 1))
+    }
+  })
+
+  it('keeps a transaction larger than a poll batch atomic', async () => {
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+
+    await db.exec(`
+      INSERT INTO public.items (name, value) SELECT 'bulk', g FROM generate_series(1, 4500) g;
+      INSERT INTO public.items (name, value) VALUES ('after', 0);
+    `)
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('next', 0)`)
+    await new Promise((r) => setTimeout(r, 1500))
+
+    const types = written.map(payloadType).filter((t) => t !== null && t !== 0x52)
+    expect(types.filter((t) => t === 0x49)).toHaveLength(4502)
+    expect(types.filter((t) => t === 0x42)).toHaveLength(2)
+    expect(types.indexOf(0x43)).toBe(4502)
+    expect(types.slice(-3)).toEqual([0x42, 0x49, 0x43])
+  }, 10_000)
+
+  it('streams TRUNCATE', async () => {
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`TRUNCATE public.items RESTART IDENTITY`)
+    await new Promise((r) => setTimeout(r, 700))
+
+    const frames = written.filter((msg) => payloadType(msg) !== null)
+    // RELATION first, since no row of the table was streamed yet
+    expect(frames.map(payloadType)).toEqual([0x42, 0x52, 0x54, 0x43])
+    const truncate = frames[2]
+    expect(truncate[35]).toBe(2) // RESTART IDENTITY
+  })
+
+  // table and columns (key columns marked with *) of a RELATION frame
+  function relationColumns(msg: Uint8Array): string {
+    const decoder = new TextDecoder()
+    const view = new DataView(msg.buffer, msg.byteOffset)
+    const cstring = (start: number) => {
+      let end = start
+      while (msg[end] !== 0) end++
+      return [decoder.decode(msg.subarray(start, end)), end + 1] as const
+    }
+    const [, afterSchema] = cstring(35)
+    const [table, afterTable] = cstring(afterSchema)
+    const count = view.getInt16(afterTable + 1)
+    let pos = afterTable + 3
+    const names: string[] = []
+    for (let i = 0; i < count; i++) {
+      const key = msg[pos] === 1
+      const [name, next] = cstring(pos + 1)
+      names.push(key ? `${name}*` : name)
+      pos = next + 8 // type oid and modifier
+    }
+    return `${table}(${names.sort().join(',')})`
+  }
+
+  it('picks up schema changes while streaming', async () => {
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1)`)
+    await new Promise((r) => setTimeout(r, 700))
+
+    await db.exec(`
+      ALTER TABLE public.items ADD COLUMN extra TEXT;
+      INSERT INTO public.items (name, value, extra) VALUES ('b', 2, 'x');
+      CREATE TABLE public.fresh (id INTEGER PRIMARY KEY, label TEXT);
+      INSERT INTO public.fresh VALUES (1, 'seed');
+    `)
+    await new Promise((r) => setTimeout(r, 1200))
+
+    const relations = written.filter((msg) => payloadType(msg) === 0x52)
+    expect(relations.map(relationColumns)).toEqual([
+      'items(id*,name,value)',
+      'items(extra,id*,name,value)',
+      'fresh(id*,label)',
+    ])
+    // the row written before the table was tracked
+    expect(written.filter((msg) => payloadType(msg) === 0x49)).toHaveLength(3)
+  }, 10_000)
+
+  it('describes enum columns with a TYPE message and sends arrays as literals', async () => {
+    await db.exec(`
+      CREATE TYPE public.mood AS ENUM ('happy', 'sad');
+      CREATE TABLE public.moods (id INTEGER PRIMARY KEY, mood public.mood, tags TEXT[]);
+    `)
+    await installChangeTracking(db)
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`INSERT INTO public.moods VALUES (1, 'happy', ARRAY['a', 'b c'])`)
+    await new Promise((r) => setTimeout(r, 700))
+
+    const frames = written.filter((msg) => payloadType(msg) !== null)
+    expect(frames.map(payloadType)).toEqual([0x42, 0x59, 0x52, 0x49, 0x43])
+    const decoder = new TextDecoder()
+    expect(decoder.decode(frames[1].subarray(35))).toBe('public\0mood\0')
+    expect(decoder.decode(frames[3])).toContain('{a,"b c"}')
+  })
+
+  // final lsn carried by a BEGIN frame
+  function beginCommitLsn(msg: Uint8Array): bigint {
+    return new DataView(msg.buffer, msg.byteOffset).getBigUint64(31)
+  }
+
+  function formatLsn(lsn: bigint): string {
+    return `${(lsn >> 32n).toString(16)}/${(lsn & 0xffffffffn).toString(16)}`
+  }
+
+  // CopyData(StandbyStatusUpdate) with the same write, flush and apply lsn
+  function standbyStatusUpdate(lsn: bigint): Uint8Array {
+    const status = new Uint8Array(1 + 4 + 1 + 8 * 4 + 1)
+    const view = new DataView(status.buffer)
+    status[0] = 0x64
+    view.setInt32(1, status.length - 1)
+    status[5] = 0x72
+    view.setBigUint64(6, lsn)
+    view.setBigUint64(14, lsn)
+    view.setBigUint64(22, lsn)
+    return status
+  }
+
+  it('resumes after the lsn the client asks for', async () => {
+    const first = createWriter()
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1)`)
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      first.writer,
+      db,
+      testMutex
+    )
+    await new Promise((r) => setTimeout(r, 300))
+    const [a] = first.written.filter((msg) => payloadType(msg) === 0x42)
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('b', 2)`)
+
+    const second = createWriter()
+    replicationPromise = handleStartReplication(
+      `START_REPLICATION SLOT "s" LOGICAL ${formatLsn(beginCommitLsn(a) + 1n)}`,
+      second.writer,
+      db,
+      testMutex
+    )
+    await new Promise((r) => setTimeout(r, 700))
+
+    expect(second.written.filter((msg) => payloadType(msg) === 0x49)).toHaveLength(1)
+    // lsns come from the change log, so both streams agree on them
+    const [b] = second.written.filter((msg) => payloadType(msg) === 0x42)
+    const firstBegins = first.written.filter((msg) => payloadType(msg) === 0x42)
+    expect(firstBegins.map(beginCommitLsn)).toEqual([
+      beginCommitLsn(a),
+      beginCommitLsn(b),
+    ])
+    expect(beginCommitLsn(b)).toBeGreaterThan(beginCommitLsn(a))
+  })
+
+  it('resumes after the confirmed flush lsn of the slot', async () => {
+    await handleReplicationQuery('CREATE_REPLICATION_SLOT "s" LOGICAL pgoutput', db)
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1)`)
+    const first = createWriter()
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      first.writer,
+      db,
+      testMutex
+    )
+    await new Promise((r) => setTimeout(r, 300))
+    const [begin] = first.written.filter((msg) => payloadType(msg) === 0x42)
+    const flushed = beginCommitLsn(begin)
+
+    // split across two chunks
+    const status = standbyStatusUpdate(flushed)
+    const onStatus = createStandbyStatusHandler(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      db,
+      testMutex
+    )
+    onStatus(status.subarray(0, 10))
+    onStatus(status.subarray(10))
+    await new Promise((r) => setTimeout(r, 100))
+
+    const slot = await db.query<{ confirmed_flush_lsn: string }>(
+      `SELECT confirmed_flush_lsn FROM _orez._zero_replication_slots WHERE slot_name = 's'`
+    )
+    expect(slot.rows[0].confirmed_flush_lsn).toBe(formatLsn(flushed).toUpperCase())
+
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('b', 2)`)
+    const second = createWriter()
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      second.writer,
+      db,
+      testMutex
+    )
+    await new Promise((r) => setTimeout(r, 700))
+    expect(second.written.filter((msg) => payloadType(msg) === 0x49)).toHaveLength(1)
+  })
+
+  it('waits until committed changes were sent and flushed', async () => {
+    await expect(waitForReplication(db, { timeout: 100 })).rejects.toThrow(
+      /no replication client/
+    )
+    const { written, writer } = createWriter()
+    const query = 'START_REPLICATION SLOT "s" LOGICAL 0/0'
+    replicationPromise = handleStartReplication(query, writer, db, testMutex)
+    await new Promise((r) => setTimeout(r, 100))
+
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1)`)
+    let done = false
+    const waiting = waitForReplication(db, { timeout: 5000 }).then(() => (done = true))
+    // the stream is woken rather than left to its idle poll interval
+    await new Promise((r) => setTimeout(r, 150))
+    const [begin] = written.filter((msg) => payloadType(msg) === 0x42)
+    expect(begin).toBeDefined()
+    expect(done).toBe(false)
+    await expect(waitForReplication(db, { timeout: 100 })).rejects.toThrow(
+      /did not catch up/
+    )
+
+    createStandbyStatusHandler(
+      query,
+      db,
+      testMutex
+    )(standbyStatusUpdate(beginCommitLsn(begin)))
+    await waiting
+    expect(done).toBe(true)
+  })
+
+  it('purges only changes the client flushed', async () => {
+    const { written, writer } = createWriter()
+    const query = 'START_REPLICATION SLOT "s" LOGICAL 0/0'
+    replicationPromise = handleStartReplication(query, writer, db, testMutex)
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1)`)
+    await new Promise((r) => setTimeout(r, 700))
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('b', 2)`)
+    await new Promise((r) => setTimeout(r, 700))
+
+    const [a] = written.filter((msg) => payloadType(msg) === 0x42)
+    createStandbyStatusHandler(
+      query,
+      db,
+      testMutex
+    )(standbyStatusUpdate(beginCommitLsn(a)))
+    // purging runs every five seconds
+    await new Promise((r) => setTimeout(r, 5500))
+
+    const left = await db.query<{ row_data: { name: string } }>(
+      `SELECT row_data FROM _orez._zero_changes`
+    )
+    expect(left.rows.map((r) => r.row_data.name)).toEqual(['b'])
+    const status = getReplicationStatus(db)
+    expect(status.retainedChanges).toBe(1)
+    expect(status.slots).toEqual([
+      expect.objectContaining({
+        slot: 's',
+        flushLsn: formatLsn(beginCommitLsn(a)).toUpperCase(),
+      }),
+    ])
+  }, 15_000)
+
+  it('streams each slot the tables of its publications', async () => {
+    await db.exec(`
+      CREATE TABLE public.other (id INTEGER PRIMARY KEY);
+      CREATE PUBLICATION items_inserts FOR TABLE public.items WITH (publish = 'insert');
+    `)
+    await installChangeTracking(db)
+    const indexer = createWriter()
+    const everything = createWriter()
+    replicationPromise = Promise.all([
+      handleStartReplication(
+        `START_REPLICATION SLOT "indexer" LOGICAL 0/0 (proto_version '1', publication_names '"items_inserts"')`,
+        indexer.writer,
+        db,
+        testMutex
+      ),
+      handleStartReplication(
+        `START_REPLICATION SLOT "all" LOGICAL 0/0 (proto_version '1', messages 'true')`,
+        everything.writer,
+        db,
+        testMutex
+      ),
+    ]).then(() => {})
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`
+      INSERT INTO public.items (name, value) VALUES ('a', 1);
+      UPDATE public.items SET value = 2;
+      INSERT INTO public.other VALUES (1);
+      SELECT _orez._zero_emit_message(true, 'test', 'hello');
+    `)
+    await new Promise((r) => setTimeout(r, 700))
+
+    const types = (written: Uint8Array[]) =>
+      written.map(payloadType).filter((t) => t !== null && t !== 0x52)
+    expect(types(indexer.written)).toEqual([0x42, 0x49, 0x43])
+    expect(types(everything.written)).toEqual([0x42, 0x49, 0x55, 0x49, 0x4d, 0x43])
+  })
+
+  it('pauses while the client drains and adapts the batch size', async () => {
+    const { written, writer } = createWriter()
+    let release = () => {}
+    let drained = Promise.resolve()
+    writer.drain = () => drained
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+    await new Promise((r) => setTimeout(r, 100))
+
+    // the client stops reading after the first batch
+    drained = new Promise((resolve) => (release = resolve))
+    await db.exec(
+      `INSERT INTO public.items (name, value) SELECT 'bulk', g FROM generate_series(1, 3000) g`
+    )
+    await new Promise((r) => setTimeout(r, 1000))
+
+    const inserts = () => written.filter((msg) => payloadType(msg) === 0x49).length
+    expect(inserts()).toBe(2000)
+    const [paused] = getReplicationStatus(db).slots
+    expect(paused.waitingForClient).toBe(true)
+    expect(paused.sendLag).toBe(1000)
+    const frames = written.length
+    await new Promise((r) => setTimeout(r, 600))
+    // nothing more, not even keepalives
+    expect(written.length).toBe(frames)
+
+    // then reads slowly
+    writer.drain = () => new Promise((r) => setTimeout(r, 300))
+    release()
+    await new Promise((r) => setTimeout(r, 1500))
+
+    expect(inserts()).toBe(3000)
+    const [resumed] = getReplicationStatus(db).slots
+    expect(resumed.waitingForClient).toBe(false)
+    expect(resumed.sendLag).toBe(0)
+    // a slow client gets smaller batches
+    expect(resumed.batchSize).toBeLessThan(2000)
+  }, 15_000)
+
+  // replica identity and old tuple marker ('K', 'O' or 'N' for none) of frames
+  function identities(written: Uint8Array[]): string[] {
+    return written.flatMap((msg) => {
+      const type = payloadType(msg)
+      if (type === 0x52) {
+        // replica identity follows the schema and table names
+        let pos = 35
+        for (let i = 0; i < 2; i++) {
+          while (msg[pos] !== 0) pos++
+          pos++
+        }
+        return [`R${String.fromCharCode(msg[pos])}`]
+      }
+      if (type === 0x55 || type === 0x44) {
+        return [String.fromCharCode(type, msg[35])]
+      }
+      return []
+    })
+  }
+
+  it('identifies old rows by the replica identity of the table', async () => {
+    await db.exec(`
+      CREATE TABLE public.by_index (id INTEGER NOT NULL, label TEXT);
+      CREATE UNIQUE INDEX by_index_id ON public.by_index (id);
+      ALTER TABLE public.by_index REPLICA IDENTITY USING INDEX by_index_id;
+      CREATE TABLE public.by_row (id INTEGER PRIMARY KEY, label TEXT);
+      ALTER TABLE public.by_row REPLICA IDENTITY FULL;
+    `)
+    await installChangeTracking(db)
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`
+      INSERT INTO public.by_index VALUES (1, 'a');
+      UPDATE public.by_index SET label = 'b';
+      UPDATE public.by_index SET id = 2;
+      DELETE FROM public.by_index;
+      INSERT INTO public.by_row VALUES (1, 'a');
+      UPDATE public.by_row SET label = 'b';
+      DELETE FROM public.by_row;
+    `)
+    await new Promise((r) => setTimeout(r, 700))
+
+    // the key only when it changed for an index, the whole row when full
+    expect(identities(written)).toEqual(['Ri', 'UN', 'UK', 'DK', 'Rf', 'UO', 'DO'])
+  })
+
+  it('refuses to stream a published table without a replica identity', async () => {
+    await db.exec(`
+      CREATE TABLE public.keyless (label TEXT);
+      CREATE PUBLICATION keyless_pub FOR TABLE public.keyless;
+    `)
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      `START_REPLICATION SLOT "s" LOGICAL 0/0 (proto_version '1', publication_names 'keyless_pub')`,
+      writer,
+      db,
+      testMutex
+    )
+    await replicationPromise
+
+    expect(written).toHaveLength(1)
+    const response = new TextDecoder().decode(written[0])
+    expect(written[0][0]).toBe(0x45) // 'E'
+    expect(response).toContain('55000')
+    expect(response).toContain(
+      'cannot update table "public.keyless" because it does not have a replica identity'
+    )
+  })
 })
@@ -6,14 +6,29 @@
  * it's talking to a real postgres with logical replication.
  */
 
-import { log } from '../log.js'
+import { log, warning } from '../log.js'
+import { getManagedPublications, syncManagedPublications } from '../publications.js'
 import {
+  countChanges,
   getChangesSince,
+  getChangeHistory,
   getCurrentWatermark,
+  getSchemaVersion,
+  getTransactionEnd,
   purgeConsumedChanges,
+  purgeExpiredChanges,
   installTriggersOnShardTables,
+  redirectLogicalMessages,
+  refreshChangeTracking,
   type ChangeRecord,
+  type LogicalMessage,
+  type TruncateOptions,
 } from './change-tracker.js'
+import {
+  FIRST_NON_BUILTIN_OID,
+  loadColumnTypes,
+  type ColumnType,
+} from './column-types.js'
 import {
   encodeBegin,
   encodeCommit,
@@ -21,26 +36,62 @@ import {
   encodeInsert,
   encodeUpdate,
   encodeDelete,
+  encodeTruncate,
+  encodeType,
+  encodeMessage,
   encodeKeepalive,
+  TRUNCATE_CASCADE,
+  TRUNCATE_RESTART_IDENTITY,
   wrapXLogData,
   wrapCopyData,
   getTableOid,
   inferColumns,
   type ColumnInfo,
 } from './pgoutput-encoder.js'
+import {
+  hasReplicaIdentity,
+  loadReplicaIdentities,
+  type ReplicaIdentity,
+} from './replica-identity.js'
+import { exportSnapshot, releaseSnapshot } from './snapshots.js'
 
 import type { Mutex } from '../mutex.js'
 import type { PGlite } from '@electric-sql/pglite'
 
 export interface ReplicationWriter {
   write(data: Uint8Array): void
+  // resolves once the client has taken what was written, or at least enough
+  // of it that the socket buffer has room again
+  drain?(): Promise<void>
+}
+
+// a source transaction being streamed. a large one spans several polls, so
+// BEGIN goes out with its first change and COMMIT once it's known to be over.
+interface OpenTransaction {
+  txid: number
+  // known up front, since BEGIN carries it
+  commitLsn: bigint
+  timestamp: bigint
 }
 
-// current lsn counter
-let currentLsn = 0x1000000n
-function nextLsn(): bigint {
-  currentLsn += 0x100n
-  return currentLsn
+// lsns are derived from _zero_changes watermarks, so they survive restarts of
+// orez and zero-cache alike. each watermark owns LSN_STEP bytes of lsn space:
+// its change at the start, then the commit of a transaction ending there.
+const LSN_BASE = 0x1000000n
+const LSN_STEP = 0x100n
+
+function changeLsn(watermark: number): bigint {
+  return LSN_BASE + BigInt(watermark) * LSN_STEP
+}
+
+function commitLsn(watermark: number): bigint {
+  return changeLsn(watermark) + 1n
+}
+
+// last watermark at or before an lsn
+function watermarkAt(lsn: bigint): number {
+  if (lsn < LSN_BASE) return 0
+  return Number((lsn - LSN_BASE) / LSN_STEP)
 }
 
 function lsnToString(lsn: bigint): string {
@@ -49,6 +100,190 @@ function lsnToString(lsn: bigint): string {
   return `${high.toString(16).toUpperCase()}/${low.toString(16).toUpperCase()}`
 }
 
+function parseLsn(lsn: string): bigint {
+  const [high, low] = lsn.split('/')
+  return (BigInt(`0x${high}`) << 32n) | BigInt(`0x${low}`)
+}
+
+// a slot being streamed, and how far its client has got
+interface SlotProgress {
+  slot: string | null
+  // commit lsn of the last transaction sent
+  sentLsn: bigint
+  // positions from the client's standby status updates
+  flushLsn: bigint
+  applyLsn: bigint
+  // change log entries written since the last one streamed
+  sendLag: number
+  // changes read per poll, adapted to how fast the client takes them
+  batchSize: number
+  // paused until the client drains the socket
+  waitingForClient: boolean
+  // polls done, and the watermark committed when the last one read changes
+  polls: number
+  polledWatermark: number
+  // everything up to here was sent in committed transactions, or skipped
+  streamedWatermark: number
+  // ends the wait for the next poll early
+  wake: (() => void) | null
+}
+
+export interface ReplicationSlotStatus {
+  slot: string | null
+  sentLsn: string
+  flushLsn: string
+  applyLsn: string
+  sendLag: number
+  batchSize: number
+  waitingForClient: boolean
+}
+
+export interface ReplicationStatus {
+  // changes kept in the change log until every streaming client flushed them
+  retainedChanges: number
+  slots: ReplicationSlotStatus[]
+}
+
+interface ReplicationState {
+  retainedChanges: number
+  streams: Set<SlotProgress>
+  // called whenever a stream polls, is acknowledged, or ends
+  listeners: Set<() => void>
+  // changes up to here were purged from the change log
+  purgedWatermark: number
+}
+
+const replicationStates = new WeakMap<PGlite, ReplicationState>()
+
+function getReplicationState(db: PGlite): ReplicationState {
+  let state = replicationStates.get(db)
+  if (!state) {
+    state = {
+      retainedChanges: 0,
+      streams: new Set(),
+      listeners: new Set(),
+      purgedWatermark: 0,
+    }
+    replicationStates.set(db, state)
+  }
+  return state
+}
+
+/**
+ * the change log backlog of a pglite instance and the slots streaming from it.
+ */
+export function getReplicationStatus(db: PGlite): ReplicationStatus {
+  const { retainedChanges, streams } = getReplicationState(db)
+  return {
+    retainedChanges,
+    slots: [...streams].map(
+      ({ slot, sentLsn, flushLsn, applyLsn, sendLag, batchSize, waitingForClient }) => ({
+        slot,
+        sentLsn: lsnToString(sentLsn),
+        flushLsn: lsnToString(flushLsn),
+        applyLsn: lsnToString(applyLsn),
+        sendLag,
+        batchSize,
+        waitingForClient,
+      })
+    ),
+  }
+}
+
+/** the watermark up to which changes were purged from the change log. */
+export function getPurgedWatermark(db: PGlite): number {
+  return getReplicationState(db).purgedWatermark
+}
+
+function notifyProgress(state: ReplicationState): void {
+  for (const listener of state.listeners) listener()
+}
+
+export interface WaitForReplicationOptions {
+  // milliseconds to wait before rejecting, 10s by default
+  timeout?: number
+}
+
+/**
+ * resolve once every change committed so far has been sent to and flushed by
+ * each client streaming from the instance. rejects if that takes longer than
+ * the timeout, including when no client is streaming.
+ */
+export function waitForReplication(
+  db: PGlite,
+  { timeout = 10_000 }: WaitForReplicationOptions = {}
+): Promise<void> {
+  const state = getReplicationState(db)
+  // polls each stream had done before the call. the first poll after it reads
+  // the watermark under the instance lock, so that covers every commit so far.
+  const pollsBefore = new Map<SlotProgress, number>()
+  const targets = new Map<SlotProgress, number>()
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      let caughtUp = state.streams.size > 0
+      for (const stream of state.streams) {
+        if (!pollsBefore.has(stream)) {
+          pollsBefore.set(stream, stream.polls)
+          stream.wake?.()
+        }
+        if (!targets.has(stream) && stream.polls > pollsBefore.get(stream)!) {
+          targets.set(stream, stream.polledWatermark)
+        }
+        const target = targets.get(stream)
+        if (
+          target === undefined ||
+          stream.streamedWatermark < target ||
+          stream.flushLsn < stream.sentLsn
+        ) {
+          caughtUp = false
+        }
+      }
+      if (caughtUp) finish()
+    }
+    const timer = setTimeout(() => {
+      finish(
+        new Error(
+          state.streams.size === 0
+            ? `no replication client streamed within ${timeout}ms`
+            : `replication did not catch up within ${timeout}ms`
+        )
+      )
+    }, timeout)
+    const finish = (err?: Error) => {
+      clearTimeout(timer)
+      state.listeners.delete(check)
+      if (err) reject(err)
+      else resolve()
+    }
+    state.listeners.add(check)
+    check()
+  })
+}
+
+// changes every streaming client has flushed, and so may be purged
+function flushedWatermark(db: PGlite): number {
+  let watermark = Infinity
+  for (const { flushLsn } of getReplicationState(db).streams) {
+    watermark = Math.min(watermark, watermarkAt(flushLsn))
+  }
+  return watermark === Infinity ? 0 : watermark
+}
+
+// bounds of the changes read per poll, and how long the client should take to
+// receive one batch
+const MIN_BATCH_SIZE = 50
+const MAX_BATCH_SIZE = 2000
+const BATCH_TARGET_MS = 250
+
+// the next batch size, from how long the client took to take the last batch:
+// about BATCH_TARGET_MS worth of its throughput, smoothed against the last size
+function nextBatchSize(batchSize: number, sent: number, elapsedMs: number): number {
+  const throughput = sent / Math.max(elapsedMs, 1)
+  const target = (batchSize + throughput * BATCH_TARGET_MS) / 2
+  return Math.round(Math.min(MAX_BATCH_SIZE, Math.max(MIN_BATCH_SIZE, target)))
+}
+
 function nowMicros(): bigint {
   return BigInt(Date.now()) * 1000n
 }
@@ -139,6 +374,24 @@ function buildSimpleResponse(columns: string[], values: string[]): Uint8Array {
   return result
 }
 
+function buildReadyForQuery(): Uint8Array {
+  const rfq = new Uint8Array(6)
+  rfq[0] = 0x5a
+  new DataView(rfq.buffer).setInt32(1, 5)
+  rfq[5] = 0x49 // 'I' idle
+  return rfq
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    result.set(p, offset)
+    offset += p.length
+  }
+  return result
+}
+
 function buildCommandComplete(tag: string): Uint8Array {
   const encoder = new TextEncoder()
   const tagBytes = encoder.encode(tag + '\0')
@@ -158,16 +411,24 @@ function buildCommandComplete(tag: string): Uint8Array {
   return result
 }
 
-function buildErrorResponse(message: string): Uint8Array {
+function buildErrorResponse(message: string, code?: string): Uint8Array {
   const encoder = new TextEncoder()
   const msgBytes = encoder.encode(message)
-  // S(severity) + M(message) + null terminator
-  const fields = new Uint8Array(2 + 6 + 2 + msgBytes.length + 1 + 1) // S + ERROR\0 + M + msg\0 + terminator
+  const codeBytes = code ? encoder.encode(code + '\0') : new Uint8Array(0)
+  // S(severity) + C(code) + M(message) + null terminator
+  const fields = new Uint8Array(
+    2 + 6 + (code ? 1 + codeBytes.length : 0) + 2 + msgBytes.length + 1 + 1
+  ) // S + ERROR\0 + C + code\0 + M + msg\0 + terminator
   let pos = 0
   fields[pos++] = 0x53 // 'S'
   const sev = encoder.encode('ERROR\0')
   fields.set(sev, pos)
   pos += sev.length
+  if (code) {
+    fields[pos++] = 0x43 // 'C'
+    fields.set(codeBytes, pos)
+    pos += codeBytes.length
+  }
   fields[pos++] = 0x4d // 'M'
   fields.set(msgBytes, pos)
   pos += msgBytes.length
@@ -193,7 +454,7 @@ export async function handleReplicationQuery(
   const upper = trimmed.toUpperCase()
 
   if (upper === 'IDENTIFY_SYSTEM') {
-    const lsn = lsnToString(currentLsn)
+    const lsn = lsnToString(commitLsn(await getCurrentWatermark(db)))
     return buildSimpleResponse(
       ['systemid', 'timeline', 'xlogpos', 'dbname'],
       ['1234567890', '1', lsn, 'postgres']
@@ -205,17 +466,28 @@ export async function handleReplicationQuery(
       /CREATE_REPLICATION_SLOT\s+(?:"([^"]+)"|'([^']+)'|(\S+))/i
     )
     const slotName = match?.[1] || match?.[2] || match?.[3] || 'zero_slot'
-    const lsn = lsnToString(nextLsn())
-    const snapshotName = `00000003-00000001-1`
+    // changes after the current watermark are streamed from this slot
+    const watermark = await getCurrentWatermark(db)
+    const lsn = lsnToString(commitLsn(watermark))
 
-    // persist slot so pg_replication_slots queries find it
-    await db.query(
+    // persist slot so pg_replication_slots queries find it. another consumer
+    // may be streaming from an existing one, so it isn't moved.
+    const created = await db.query(
       `INSERT INTO _orez._zero_replication_slots (slot_name, restart_lsn, confirmed_flush_lsn)
        VALUES ($1, $2, $2)
-       ON CONFLICT (slot_name) DO UPDATE SET restart_lsn = $2, confirmed_flush_lsn = $2`,
+       ON CONFLICT (slot_name) DO NOTHING
+       RETURNING slot_name`,
       [slotName, lsn]
     )
+    if (created.rows.length === 0) {
+      return concat(
+        buildErrorResponse(`replication slot "${slotName}" already exists`, '42710'),
+        buildReadyForQuery()
+      )
+    }
 
+    // the initial copy imports this to read the state streaming starts after
+    const snapshotName = exportSnapshot(db, slotName, watermark)
     return buildSimpleResponse(
       ['slot_name', 'consistent_point', 'snapshot_name', 'output_plugin'],
       [slotName, lsn, snapshotName, 'pgoutput']
@@ -229,6 +501,7 @@ export async function handleReplicationQuery(
       await db.query(`DELETE FROM _orez._zero_replication_slots WHERE slot_name = $1`, [
         slotName,
       ])
+      releaseSnapshot(db, slotName)
     }
     return buildCommandComplete('DROP_REPLICATION_SLOT')
   }
@@ -252,6 +525,174 @@ export async function handleReplicationQuery(
   return null
 }
 
+interface StartReplication {
+  slot: string | null
+  lsn: bigint
+  // null streams every tracked table
+  publications: string[] | null
+  // whether logical decoding messages are streamed
+  messages: boolean
+}
+
+// slot, start lsn and pgoutput options of a START_REPLICATION command
+function parseStartReplication(query: string): StartReplication {
+  const match = query.match(
+    /START_REPLICATION\s+SLOT\s+(?:"([^"]+)"|(\S+))\s+LOGICAL\s+([0-9A-F]+\/[0-9A-F]+)/i
+  )
+  const names = query.match(/\bpublication_names\s+'((?:[^']|'')*)'/i)?.[1]
+  return {
+    slot: match ? match[1] || match[2] : null,
+    lsn: match ? parseLsn(match[3]) : 0n,
+    publications: names
+      ? names
+          .replace(/''/g, "'")
+          .split(',')
+          .map((name) => name.trim().replace(/^"(.*)"$/, '$1'))
+          .filter(Boolean)
+      : null,
+    messages: /\bmessages\s+'(?:true|on|1)'/i.test(query),
+  }
+}
+
+// operations published for each table of some publications
+async function getPublishedTables(
+  db: PGlite,
+  publications: string[]
+): Promise<Map<string, Set<ChangeRecord['op']>>> {
+  const result = await db.query<{
+    pubname: string
+    schemaname: string
+    tablename: string
+    pubinsert: boolean
+    pubupdate: boolean
+    pubdelete: boolean
+    pubtruncate: boolean
+  }>(
+    `SELECT p.pubname, t.schemaname, t.tablename,
+            p.pubinsert, p.pubupdate, p.pubdelete, p.pubtruncate
+     FROM pg_publication p
+     JOIN pg_publication_tables t ON t.pubname = p.pubname
+     WHERE p.pubname = ANY($1)`,
+    [publications]
+  )
+  const tables = new Map<string, Set<ChangeRecord['op']>>()
+  for (const row of result.rows) {
+    const key = `${row.schemaname}.${row.tablename}`
+    let ops = tables.get(key)
+    if (!ops) {
+      ops = new Set()
+      tables.set(key, ops)
+    }
+    if (row.pubinsert) ops.add('INSERT')
+    if (row.pubupdate) ops.add('UPDATE')
+    if (row.pubdelete) ops.add('DELETE')
+    if (row.pubtruncate) ops.add('TRUNCATE')
+  }
+  return tables
+}
+
+// the error postgres raises for the first published table whose updates or
+// deletes have no replica identity, if any
+function findMissingReplicaIdentity(
+  publishedTables: Map<string, Set<ChangeRecord['op']>>,
+  replicaIdentities: Map<string, ReplicaIdentity>
+): string | null {
+  for (const [table, ops] of publishedTables) {
+    if (!isReplicatedTable(table)) continue
+    const identity = replicaIdentities.get(table)
+    if (!identity || hasReplicaIdentity(identity)) continue
+    const op = ops.has('UPDATE') ? 'update' : ops.has('DELETE') ? 'delete' : null
+    if (!op) continue
+    return (
+      `cannot ${op === 'update' ? 'update' : 'delete from'} table "${table}" because ` +
+      `it does not have a replica identity and publishes ${op}s. ` +
+      `set REPLICA IDENTITY using ALTER TABLE`
+    )
+  }
+  return null
+}
+
+async function getConfirmedFlushLsn(db: PGlite, slot: string): Promise<bigint> {
+  const result = await db.query<{ confirmed_flush_lsn: string }>(
+    `SELECT confirmed_flush_lsn FROM _orez._zero_replication_slots WHERE slot_name = $1`,
+    [slot]
+  )
+  const lsn = result.rows[0]?.confirmed_flush_lsn
+  return lsn ? parseLsn(lsn) : 0n
+}
+
+// shown by pg_replication_slots
+async function setSlotActive(db: PGlite, slot: string, active: boolean) {
+  await db.query(
+    `UPDATE _orez._zero_replication_slots SET active = $2 WHERE slot_name = $1`,
+    [slot, active]
+  )
+}
+
+/**
+ * read the messages a client sends on a streaming replication connection.
+ * standby status updates move the flush and apply positions of the slot's
+ * stream, which hold back purging, and the flush lsn is persisted as the
+ * slot's confirmed_flush_lsn, so the stream resumes from there after a restart.
+ */
+export function createStandbyStatusHandler(
+  query: string,
+  db: PGlite,
+  mutex: Mutex
+): (chunk: Uint8Array) => void {
+  const { slot } = parseStartReplication(query)
+  let buffered = new Uint8Array(0)
+  let confirmed = 0n
+  let saving = Promise.resolve()
+
+  const confirm = (flushLsn: bigint, applyLsn: bigint) => {
+    for (const progress of getReplicationState(db).streams) {
+      if (progress.slot !== slot) continue
+      if (flushLsn > progress.flushLsn) progress.flushLsn = flushLsn
+      if (applyLsn > progress.applyLsn) progress.applyLsn = applyLsn
+    }
+    notifyProgress(getReplicationState(db))
+    if (!slot || flushLsn <= confirmed) return
+    confirmed = flushLsn
+    saving = saving
+      .then(async () => {
+        // a later update supersedes this one
+        if (confirmed !== flushLsn) return
+        await mutex.acquire()
+        try {
+          await db.query(
+            `UPDATE _orez._zero_replication_slots SET confirmed_flush_lsn = $2
+             WHERE slot_name = $1`,
+            [slot, lsnToString(flushLsn)]
+          )
+        } finally {
+          mutex.release()
+        }
+      })
+      .catch((err: unknown) => {
+        log.debug.proxy(`replication: saving confirmed flush lsn failed: ${err}`)
+      })
+  }
+
+  return (chunk) => {
+    const data = new Uint8Array(buffered.length + chunk.length)
+    data.set(buffered, 0)
+    data.set(chunk, buffered.length)
+    const view = new DataView(data.buffer)
+    let pos = 0
+    while (data.length - pos >= 5) {
+      const end = pos + 1 + view.getInt32(pos + 1)
+      if (end > data.length) break
+      // CopyData(StandbyStatusUpdate): write, flush and apply lsns, clock, reply
+      if (data[pos] === 0x64 && data[pos + 5] === 0x72 && end - pos >= 6 + 24) {
+        confirm(view.getBigUint64(pos + 6 + 8), view.getBigUint64(pos + 6 + 16))
+      }
+      pos = end
+    }
+    buffered = data.slice(pos)
+  }
+}
+
 /**
  * start streaming replication changes to the client.
  * this runs indefinitely until the connection is closed.
@@ -262,32 +703,37 @@ export async function handleStartReplication(
   db: PGlite,
   mutex: Mutex
 ): Promise<void> {
-  log.debug.proxy('replication: entering streaming mode')
-
-  // send CopyBothResponse to enter streaming mode
-  const copyBoth = new Uint8Array(1 + 4 + 1 + 2)
-  copyBoth[0] = 0x57 // 'W' CopyBothResponse
-  new DataView(copyBoth.buffer).setInt32(1, 4 + 1 + 2)
-  copyBoth[5] = 0 // overall format (0 = text)
-  new DataView(copyBoth.buffer).setInt16(6, 0) // 0 columns
-  writer.write(copyBoth)
-
+  // resume after what the client has, or what the slot says it confirmed
+  const { slot, lsn: requestedLsn, publications, messages } = parseStartReplication(query)
   let lastWatermark = 0
+  const state = getReplicationState(db)
 
-  // declared outside mutex block so they're accessible in the poll loop
-  const tableKeyColumns = new Map<string, Set<string>>()
+  // declared outside loadSchema so they're accessible in the poll loop
+  const replicaIdentities = new Map<string, ReplicaIdentity>()
   const excludedColumns = new Map<string, Set<string>>()
-  const columnTypeOids = new Map<string, Map<string, number>>()
+  const columnTypes = new Map<string, Map<string, ColumnType>>()
+  // tables of the requested publications, if any, with their published operations
+  let publishedTables: Map<string, Set<ChangeRecord['op']>> | null = null
+  // DDL statements seen by the last loadSchema
+  let schemaVersion = 0
+  // tables the initial copy read from the slot's snapshot, and the watermark
+  // each was copied at. their changes up to it are already in the copy.
+  let copied: Map<string, number> | null = null
+
+  // (re)load what the stream needs to know about the schema: triggers on shard
+  // tables, notify triggers, primary keys and column types. runs under the mutex.
+  async function loadSchema() {
+    replicaIdentities.clear()
+    excludedColumns.clear()
+    columnTypes.clear()
+    if (publications) {
+      publishedTables = await getPublishedTables(db, publications)
+    }
 
-  // acquire mutex for all setup queries to avoid conflicting with proxy connections.
-  // the change-streamer's initial copy also queries PGlite via the proxy, and
-  // direct db.query()/db.exec() calls here bypass the proxy's mutex, causing
-  // "already in transaction" errors when they interleave.
-  await mutex.acquire()
-  try {
     // install change tracking triggers on shard schema tables (e.g. chat_0.clients)
     // these track zero-cache's lastMutationID for .server promise resolution
     await installTriggersOnShardTables(db)
+    await redirectLogicalMessages(db)
 
     // set up LISTEN for real-time change notifications
     await db.exec(`
@@ -330,7 +776,7 @@ export async function handleStartReplication(
       await db.exec(`
       DROP TRIGGER IF EXISTS _zero_notify_trigger ON public.${quoted};
       CREATE TRIGGER _zero_notify_trigger
-        AFTER INSERT OR UPDATE OR DELETE ON public.${quoted}
+        AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON public.${quoted}
         FOR EACH STATEMENT EXECUTE FUNCTION public._zero_notify_change();
     `)
     }
@@ -358,7 +804,7 @@ export async function handleStartReplication(
         await db.exec(`
         DROP TRIGGER IF EXISTS _zero_notify_trigger ON ${quotedSchema}.${quotedTable};
         CREATE TRIGGER _zero_notify_trigger
-          AFTER INSERT OR UPDATE OR DELETE ON ${quotedSchema}.${quotedTable}
+          AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON ${quotedSchema}.${quotedTable}
           FOR EACH STATEMENT EXECUTE FUNCTION public._zero_notify_change();
       `)
       }
@@ -369,84 +815,28 @@ export async function handleStartReplication(
       }
     }
 
-    // build primary key lookup for all relevant schemas
+    // how each table identifies the old row of an UPDATE or DELETE
     for (const schema of relevantSchemas) {
-      const pkResult = await db.query<{ table_name: string; column_name: string }>(
-        `SELECT tc.table_name, kcu.column_name
-       FROM information_schema.table_constraints tc
-       JOIN information_schema.key_column_usage kcu
-         ON tc.constraint_name = kcu.constraint_name
-         AND tc.table_schema = kcu.table_schema
-       WHERE tc.constraint_type = 'PRIMARY KEY'
-         AND tc.table_schema = $1`,
-        [schema]
-      )
-      for (const { table_name, column_name } of pkResult.rows) {
-        const key = `${schema}.${table_name}`
-        let keys = tableKeyColumns.get(key)
-        if (!keys) {
-          keys = new Set()
-          tableKeyColumns.set(key, keys)
-        }
-        keys.add(column_name)
+      for (const [key, identity] of await loadReplicaIdentities(db, schema)) {
+        replicaIdentities.set(key, identity)
       }
     }
-    log.debug.proxy(`loaded primary keys for ${tableKeyColumns.size} tables`)
-
-    // build excluded columns lookup (types zero-cache can't handle)
-    // also build column type OID map so RELATION messages carry correct postgres type OIDs.
-    // zero-cache uses these to select value parsers (e.g. timestamp → number via timestampToFpMillis).
-    const UNSUPPORTED_TYPES = new Set(['tsvector', 'tsquery', 'USER-DEFINED'])
-    const PG_DATA_TYPE_OIDS: Record<string, number> = {
-      boolean: 16,
-      bytea: 17,
-      bigint: 20,
-      smallint: 21,
-      integer: 23,
-      text: 25,
-      json: 114,
-      real: 700,
-      'double precision': 701,
-      character: 1042,
-      'character varying': 1043,
-      date: 1082,
-      'time without time zone': 1083,
-      'timestamp without time zone': 1114,
-      'timestamp with time zone': 1184,
-      'time with time zone': 1266,
-      numeric: 1700,
-      uuid: 2950,
-      jsonb: 3802,
-    }
+    log.debug.proxy(`loaded replica identities for ${replicaIdentities.size} tables`)
+
+    // column types from pg_type, so RELATION messages carry the oids zero-cache
+    // selects value parsers by (e.g. timestamp → number via timestampToFpMillis).
+    // columns it can't handle are excluded.
     for (const schema of relevantSchemas) {
-      const colResult = await db.query<{
-        table_name: string
-        column_name: string
-        data_type: string
-      }>(
-        `SELECT table_name, column_name, data_type
-       FROM information_schema.columns
-       WHERE table_schema = $1`,
-        [schema]
-      )
-      for (const { table_name, column_name, data_type } of colResult.rows) {
-        const key = `${schema}.${table_name}`
-        if (UNSUPPORTED_TYPES.has(data_type)) {
+      for (const [key, columns] of await loadColumnTypes(db, schema)) {
+        columnTypes.set(key, columns)
+        for (const [column, type] of columns) {
+          if (!type.unsupported) continue
           let cols = excludedColumns.get(key)
           if (!cols) {
             cols = new Set()
             excludedColumns.set(key, cols)
           }
-          cols.add(column_name)
-        }
-        const oid = PG_DATA_TYPE_OIDS[data_type]
-        if (oid !== undefined) {
-          let cols = columnTypeOids.get(key)
-          if (!cols) {
-            cols = new Map()
-            columnTypeOids.set(key, cols)
-          }
-          cols.set(column_name, oid)
+          cols.add(column)
         }
       }
     }
@@ -455,23 +845,85 @@ export async function handleStartReplication(
         `excluding unsupported columns: ${[...excludedColumns.entries()].map(([t, c]) => `${t}(${[...c].join(',')})`).join(', ')}`
       )
     }
+  }
+
+  // acquire mutex for all setup queries to avoid conflicting with proxy connections.
+  // the change-streamer's initial copy also queries PGlite via the proxy, and
+  // direct db.query()/db.exec() calls here bypass the proxy's mutex, causing
+  // "already in transaction" errors when they interleave.
+  await mutex.acquire()
+  try {
+    await loadSchema()
+    // like postgres, refuse to replicate updates or deletes that can't say
+    // which row they changed
+    const missing = publishedTables
+      ? findMissingReplicaIdentity(publishedTables, replicaIdentities)
+      : null
+    if (missing) {
+      log.proxy(warning(`replication: ${missing}`))
+      writer.write(concat(buildErrorResponse(missing, '55000'), buildReadyForQuery()))
+      return
+    }
+    schemaVersion = await getSchemaVersion(db)
+    const confirmedLsn = slot ? await getConfirmedFlushLsn(db, slot) : 0n
+    const startLsn = confirmedLsn > requestedLsn ? confirmedLsn : requestedLsn
+    lastWatermark = watermarkAt(startLsn - 1n)
+    copied = slot ? releaseSnapshot(db, slot) : null
+    if (copied?.size) {
+      log.debug.proxy(
+        `replication: skipping changes already copied from ${[...copied].map(([t, w]) => `${t}@${w}`).join(', ')}`
+      )
+    }
+    state.retainedChanges = await countChanges(db)
+    if (slot) await setSlotActive(db, slot, true)
+    log.debug.proxy(
+      `replication: streaming from ${lsnToString(startLsn)} (watermark ${lastWatermark})`
+    )
   } finally {
     mutex.release()
   }
 
-  // track which tables we've sent RELATION messages for
-  const sentRelations = new Set<string>()
-  let txCounter = 1
+  log.debug.proxy('replication: entering streaming mode')
+
+  // send CopyBothResponse to enter streaming mode
+  const copyBoth = new Uint8Array(1 + 4 + 1 + 2)
+  copyBoth[0] = 0x57 // 'W' CopyBothResponse
+  new DataView(copyBoth.buffer).setInt32(1, 4 + 1 + 2)
+  copyBoth[5] = 0 // overall format (0 = text)
+  new DataView(copyBoth.buffer).setInt16(6, 0) // 0 columns
+  writer.write(copyBoth)
+
+  // columns of the RELATION message last sent for each table
+  const sentRelations = new Map<string, string>()
+  let transaction: OpenTransaction | null = null
+  // everything up to here was part of committed transactions
+  let committedWatermark = lastWatermark
+  // the client has everything before where it asked to start
+  const startedAt = commitLsn(lastWatermark)
+  const progress: SlotProgress = {
+    slot,
+    sentLsn: startedAt,
+    flushLsn: startedAt,
+    applyLsn: startedAt,
+    sendLag: 0,
+    batchSize: MAX_BATCH_SIZE,
+    waitingForClient: false,
+    polls: 0,
+    polledWatermark: 0,
+    streamedWatermark: lastWatermark,
+    wake: null,
+  }
+  state.streams.add(progress)
+  let purgedWatermark = 0
 
   // polling + notification loop
   // adaptive: poll fast when catching up, slow when idle
   const pollIntervalIdle = 500
   const pollIntervalCatchUp = 20
-  const batchSize = 2000
-  const purgeEveryN = 10
+  const purgeIntervalMs = 5_000
   const shardRescanEveryN = 20
   let running = true
-  let pollsSincePurge = 0
+  let lastPurge = performance.now()
   let pollsSinceShardRescan = 0
 
   const poll = async () => {
@@ -491,67 +943,148 @@ export async function handleStartReplication(
 
         // acquire mutex to avoid conflicting with proxy connections
         await mutex.acquire()
+        const batchSize = progress.batchSize
         let changes: Awaited<ReturnType<typeof getChangesSince>>
+        let latestWatermark = 0
+        // last watermark of the batch's final transaction, which a full batch
+        // may have cut short
+        let lastTransactionEnd = 0
         try {
+          // catch up with schema changes before reading changes made after them
+          if ((await getSchemaVersion(db)) !== schemaVersion) {
+            await syncManagedPublications(db, getManagedPublications(), true)
+            await refreshChangeTracking(db)
+            await loadSchema()
+            // loadSchema's own DDL counts too
+            schemaVersion = await getSchemaVersion(db)
+            log.debug.proxy('replication: reloaded schema after a change')
+          }
           changes = await getChangesSince(db, lastWatermark, batchSize)
+          if (changes.length === batchSize) {
+            lastTransactionEnd = await getTransactionEnd(
+              db,
+              changes[changes.length - 1].txid
+            )
+          }
+          latestWatermark = await getCurrentWatermark(db)
         } finally {
           mutex.release()
         }
 
+        const sendStarted = performance.now()
         if (changes.length > 0) {
-          // filter out shard tables that zero-cache doesn't expect.
-          // only `clients` is needed (for .server promise resolution).
-          // other shard tables (replicas, mutations) crash zero-cache
-          // with "Unknown table" in change-processor.
-          const batchEnd = changes[changes.length - 1].watermark
-          changes = changes.filter((c) => {
-            const dot = c.table_name.indexOf('.')
-            if (dot === -1) return true
-            const schema = c.table_name.substring(0, dot)
-            if (schema === 'public') return true
-            const table = c.table_name.substring(dot + 1)
-            return table === 'clients'
-          })
-
-          if (changes.length === 0) {
-            lastWatermark = batchEnd
-            continue
+          const runs = splitTransactions(changes)
+          for (const run of runs) {
+            if (transaction && transaction.txid !== run.txid) {
+              commitTransaction(writer, transaction)
+              progress.sentLsn = transaction.commitLsn
+              transaction = null
+            }
+            const replicated = run.changes.filter((c) =>
+              c.op === 'MESSAGE'
+                ? messages
+                : isReplicatedTable(c.table_name) &&
+                  (!publishedTables || isPublished(publishedTables, c)) &&
+                  c.watermark > (copied?.get(c.table_name) ?? 0)
+            )
+            if (replicated.length === 0) continue
+            const end =
+              run === runs[runs.length - 1] && lastTransactionEnd
+                ? lastTransactionEnd
+                : run.changes[run.changes.length - 1].watermark
+            transaction ??= beginTransaction(writer, run.txid, replicated[0], end)
+            await streamChanges(
+              replicated,
+              writer,
+              sentRelations,
+              transaction,
+              replicaIdentities,
+              excludedColumns,
+              columnTypes
+            )
           }
+          lastWatermark = changes[changes.length - 1].watermark
+        }
 
-          await streamChanges(
-            changes,
-            writer,
-            sentRelations,
-            txCounter++,
-            tableKeyColumns,
-            excludedColumns,
-            columnTypeOids
-          )
-          lastWatermark = batchEnd
-
-          // purge consumed changes periodically to free wasm memory
-          pollsSincePurge++
-          if (pollsSincePurge >= purgeEveryN) {
-            pollsSincePurge = 0
-            await mutex.acquire()
-            try {
-              const purged = await purgeConsumedChanges(db, lastWatermark)
+        // a full batch may have cut the last transaction short. it stays open
+        // until a later poll reaches the next transaction or finds no more.
+        const complete = changes.length < batchSize
+        if (complete && transaction) {
+          commitTransaction(writer, transaction)
+          progress.sentLsn = transaction.commitLsn
+          transaction = null
+        }
+        committedWatermark = complete
+          ? lastWatermark
+          : watermarkBeforeLastTransaction(changes, committedWatermark)
+        progress.sendLag = Math.max(0, latestWatermark - lastWatermark)
+        progress.polls++
+        progress.polledWatermark = latestWatermark
+        progress.streamedWatermark = committedWatermark
+        notifyProgress(state)
+
+        // don't read more while the client hasn't taken what was sent, and size
+        // the next batch by how long it took
+        if (writer.drain) {
+          progress.waitingForClient = true
+          try {
+            await writer.drain()
+          } finally {
+            progress.waitingForClient = false
+          }
+        }
+        if (changes.length > 0) {
+          const elapsed = performance.now() - sendStarted
+          progress.batchSize = nextBatchSize(batchSize, changes.length, elapsed)
+        }
+
+        // purge changes every few seconds to free wasm memory, but only those
+        // every streaming client has flushed, so a client that crashes before
+        // applying them gets them again when it resumes
+        if (performance.now() - lastPurge >= purgeIntervalMs) {
+          lastPurge = performance.now()
+          const purgeable = Math.min(committedWatermark, flushedWatermark(db))
+          const history = getChangeHistory(db)
+          await mutex.acquire()
+          try {
+            if (history) {
+              // kept history expires with time and size, not just consumption
+              const purged = await purgeExpiredChanges(db, purgeable, history)
+              state.purgedWatermark = Math.max(state.purgedWatermark, purged.watermark)
+              if (purged.count > 0) {
+                log.debug.proxy(`purged ${purged.count} expired changes`)
+              }
+            } else if (purgeable > purgedWatermark) {
+              const purged = await purgeConsumedChanges(db, purgeable)
+              purgedWatermark = purgeable
+              state.purgedWatermark = Math.max(state.purgedWatermark, purgeable)
               if (purged > 0) {
                 log.debug.proxy(`purged ${purged} consumed changes`)
               }
-            } finally {
-              mutex.release()
             }
+            state.retainedChanges = await countChanges(db)
+          } finally {
+            mutex.release()
           }
         }
 
-        // send keepalive
-        const ts = nowMicros()
-        writer.write(encodeKeepalive(currentLsn, ts, false))
+        // send keepalive, unless in the middle of a transaction whose commit
+        // lsn is already reserved
+        if (!transaction) {
+          writer.write(encodeKeepalive(commitLsn(lastWatermark), nowMicros(), false))
+        }
 
         // if we got a full batch, there's likely more - poll fast
-        const delay = changes.length >= batchSize ? pollIntervalCatchUp : pollIntervalIdle
-        await new Promise((resolve) => setTimeout(resolve, delay))
+        const delay = complete ? pollIntervalIdle : pollIntervalCatchUp
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(wake, delay)
+          function wake() {
+            clearTimeout(timer)
+            progress.wake = null
+            resolve()
+          }
+          progress.wake = wake
+        })
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err)
         log.debug.proxy(`replication poll error: ${msg}`)
@@ -565,27 +1098,135 @@ export async function handleStartReplication(
   }
 
   log.debug.proxy('replication: starting poll loop')
-  await poll()
+  try {
+    await poll()
+  } finally {
+    state.streams.delete(progress)
+    notifyProgress(state)
+    if (slot && ![...state.streams].some((other) => other.slot === slot)) {
+      await mutex.acquire()
+      try {
+        await setSlotActive(db, slot, false)
+      } catch {
+        // db closed
+      } finally {
+        mutex.release()
+      }
+    }
+  }
   log.debug.proxy('replication: poll loop exited')
 }
 
+// filter out shard tables that zero-cache doesn't expect.
+// only `clients` is needed (for .server promise resolution).
+// other shard tables (replicas, mutations) crash zero-cache
+// with "Unknown table" in change-processor.
+function isReplicatedTable(tableName: string): boolean {
+  const dot = tableName.indexOf('.')
+  if (dot === -1) return true
+  const schema = tableName.substring(0, dot)
+  if (schema === 'public') return true
+  return tableName.substring(dot + 1) === 'clients'
+}
+
+function isPublished(
+  publishedTables: Map<string, Set<ChangeRecord['op']>>,
+  change: ChangeRecord
+): boolean {
+  const name = change.table_name.includes('.')
+    ? change.table_name
+    : `public.${change.table_name}`
+  return publishedTables.get(name)?.has(change.op) ?? false
+}
+
+// group changes into runs by source transaction. transactions don't
+// interleave, since pglite is a single session.
+function splitTransactions(
+  changes: ChangeRecord[]
+): { txid: number; changes: ChangeRecord[] }[] {
+  const runs: { txid: number; changes: ChangeRecord[] }[] = []
+  for (const change of changes) {
+    const last = runs[runs.length - 1]
+    if (last?.txid === change.txid) {
+      last.changes.push(change)
+    } else {
+      runs.push({ txid: change.txid, changes: [change] })
+    }
+  }
+  return runs
+}
+
+// watermark of the last change before the final transaction of a batch, or
+// `fallback` if the whole batch is one transaction
+function watermarkBeforeLastTransaction(
+  changes: ChangeRecord[],
+  fallback: number
+): number {
+  const lastTxid = changes[changes.length - 1]?.txid
+  for (let i = changes.length - 1; i >= 0; i--) {
+    if (changes[i].txid !== lastTxid) return changes[i].watermark
+  }
+  return fallback
+}
+
+// `end` is the watermark of the transaction's last change, replicated or not
+function beginTransaction(
+  writer: ReplicationWriter,
+  txid: number,
+  first: ChangeRecord,
+  end: number
+): OpenTransaction {
+  const transaction: OpenTransaction = {
+    txid,
+    commitLsn: commitLsn(end),
+    timestamp: nowMicros(),
+  }
+  const { timestamp } = transaction
+  const lsn = changeLsn(first.watermark)
+  // pgoutput xids are 32 bits, txid_current() adds an epoch above them
+  const xid = txid % 0x100000000
+  const beginMsg = wrapXLogData(
+    lsn,
+    lsn,
+    timestamp,
+    encodeBegin(transaction.commitLsn, timestamp, xid)
+  )
+  writer.write(wrapCopyData(beginMsg))
+  return transaction
+}
+
+function commitTransaction(writer: ReplicationWriter, transaction: OpenTransaction) {
+  const { commitLsn, timestamp } = transaction
+  const endLsn = commitLsn + 1n
+  const commitMsg = wrapXLogData(
+    commitLsn,
+    endLsn,
+    timestamp,
+    encodeCommit(0, commitLsn, endLsn, timestamp)
+  )
+  writer.write(wrapCopyData(commitMsg))
+}
+
 async function streamChanges(
   changes: ChangeRecord[],
   writer: ReplicationWriter,
-  sentRelations: Set<string>,
-  txId: number,
-  tableKeyColumns: Map<string, Set<string>>,
+  sentRelations: Map<string, string>,
+  transaction: OpenTransaction,
+  replicaIdentities: Map<string, ReplicaIdentity>,
   excludedColumns: Map<string, Set<string>>,
-  columnTypeOids: Map<string, Map<string, number>>
+  columnTypes: Map<string, Map<string, ColumnType>>
 ): Promise<void> {
-  const ts = nowMicros()
-  const lsn = nextLsn()
-
-  // BEGIN
-  const beginMsg = wrapXLogData(lsn, lsn, ts, encodeBegin(lsn, ts, txId))
-  writer.write(wrapCopyData(beginMsg))
+  const { timestamp: ts } = transaction
 
   for (const change of changes) {
+    const lsn = changeLsn(change.watermark)
+    if (change.op === 'MESSAGE') {
+      const { transactional, content } = change.row_data as unknown as LogicalMessage
+      const message = encodeMessage(lsn, change.table_name, content, transactional)
+      writer.write(wrapCopyData(wrapXLogData(lsn, lsn, ts, message)))
+      continue
+    }
+
     // parse schema-qualified name (schema.table or bare table)
     const dot = change.table_name.indexOf('.')
     const schema = dot !== -1 ? change.table_name.substring(0, dot) : 'public'
@@ -623,22 +1264,45 @@ async function streamChanges(
       oldData = normalizeShardClientsRow(oldData)
     }
 
-    const row = rowData || oldData
+    // a TRUNCATE has no row, only the table's columns to describe it with
+    const row = change.op === 'TRUNCATE' ? oldData : rowData || oldData
     if (!row) continue
 
-    const keySet = tableKeyColumns.get(qualifiedKey)
-    const typeOids = columnTypeOids.get(qualifiedKey)
+    const identity = replicaIdentities.get(qualifiedKey) ?? NO_REPLICA_IDENTITY
+    // pgoutput marks every column as part of a full identity
+    const full = identity.kind === 'f'
+    const types = columnTypes.get(qualifiedKey)
     const columns = inferColumns(row).map((col) => ({
       ...col,
-      typeOid: typeOids?.get(col.name) ?? col.typeOid,
-      isKey: keySet?.has(col.name) ?? false,
+      typeOid: types?.get(col.name)?.typeOid ?? col.typeOid,
+      isArray: types?.get(col.name)?.isArray ?? false,
+      isKey: full || identity.keyColumns.has(col.name),
     }))
 
-    // send RELATION if not yet sent
-    if (!sentRelations.has(qualifiedKey)) {
-      const relMsg = encodeRelation(tableOid, schema, tableName, 0x64, columns)
+    // send RELATION if not yet sent, or again once the table's columns changed
+    const signature =
+      identity.kind +
+      columns.map((col) => `${col.name}:${col.typeOid}:${col.isKey ? 'k' : ''}`).join(',')
+    if (sentRelations.get(qualifiedKey) !== signature) {
+      // describe non-builtin types (enums, extension types) before using them
+      const described = new Set<number>()
+      for (const col of columns) {
+        const type = types?.get(col.name)
+        if (!type || type.typeOid < FIRST_NON_BUILTIN_OID || described.has(type.typeOid))
+          continue
+        described.add(type.typeOid)
+        const typeMsg = encodeType(type.typeOid, type.typeSchema, type.typeName)
+        writer.write(wrapCopyData(wrapXLogData(lsn, lsn, ts, typeMsg)))
+      }
+      const relMsg = encodeRelation(
+        tableOid,
+        schema,
+        tableName,
+        identity.kind.charCodeAt(0),
+        columns
+      )
       writer.write(wrapCopyData(wrapXLogData(lsn, lsn, ts, relMsg)))
-      sentRelations.add(qualifiedKey)
+      sentRelations.set(qualifiedKey, signature)
     }
 
     // send the change
@@ -650,23 +1314,67 @@ async function streamChanges(
         break
       case 'UPDATE':
         if (!rowData) continue
-        changeMsg = encodeUpdate(tableOid, rowData, oldData, columns)
+        // like pgoutput: the whole old row for a full identity, otherwise the
+        // old key only when the update changed it
+        changeMsg = full
+          ? encodeUpdate(tableOid, rowData, oldData, columns, 'full')
+          : encodeUpdate(
+              tableOid,
+              rowData,
+              oldData && keyChanged(identity, oldData, rowData) ? oldData : null,
+              columns,
+              'key'
+            )
         break
       case 'DELETE':
         if (!oldData) continue
-        changeMsg = encodeDelete(tableOid, oldData, columns)
+        if (!hasReplicaIdentity(identity)) {
+          warnMissingReplicaIdentity(qualifiedKey)
+          continue
+        }
+        changeMsg = encodeDelete(tableOid, oldData, columns, full ? 'full' : 'key')
         break
+      case 'TRUNCATE': {
+        const options = change.row_data as TruncateOptions | null
+        changeMsg = encodeTruncate(
+          [tableOid],
+          (options?.cascade ? TRUNCATE_CASCADE : 0) |
+            (options?.restart_identity ? TRUNCATE_RESTART_IDENTITY : 0)
+        )
+        break
+      }
       default:
         continue
     }
 
     writer.write(wrapCopyData(wrapXLogData(lsn, lsn, ts, changeMsg)))
   }
+}
 
-  // COMMIT
-  const endLsn = nextLsn()
-  const commitMsg = wrapXLogData(endLsn, endLsn, ts, encodeCommit(0, lsn, endLsn, ts))
-  writer.write(wrapCopyData(commitMsg))
+const NO_REPLICA_IDENTITY: ReplicaIdentity = { kind: 'd', keyColumns: new Set() }
+
+function keyChanged(
+  identity: ReplicaIdentity,
+  oldRow: Record<string, unknown>,
+  row: Record<string, unknown>
+): boolean {
+  return [...identity.keyColumns].some(
+    (col) => JSON.stringify(oldRow[col]) !== JSON.stringify(row[col])
+  )
+}
+
+// tables warned about, so every DELETE doesn't repeat it
+const warnedReplicaIdentity = new Set<string>()
+
+function warnMissingReplicaIdentity(table: string) {
+  if (warnedReplicaIdentity.has(table)) return
+  warnedReplicaIdentity.add(table)
+  log.proxy(
+    warning(
+      `not replicating deletes from ${table}: it has no replica identity. ` +
+        `set one with ALTER TABLE ... REPLICA IDENTITY`
+    )
+  )
 }
 
 function normalizeShardClientsRow(
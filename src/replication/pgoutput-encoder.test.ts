@@ -9,7 +9,12 @@ import {
   encodeInsert,
   encodeUpdate,
   encodeDelete,
+  encodeTruncate,
+  encodeType,
+  encodeMessage,
   encodeKeepalive,
+  TRUNCATE_CASCADE,
+  TRUNCATE_RESTART_IDENTITY,
   wrapXLogData,
   wrapCopyData,
   getTableOid,
@@ -287,6 +292,44 @@ describe('pgoutput-encoder', () => {
       expect(r32(buf, 1)).toBe(16384)
       expect(buf[5]).toBe(0x4b) // 'K'
     })
+
+    it('sends only key columns in a key tuple', () => {
+      const cols: ColumnInfo[] = [
+        { name: 'id', typeOid: 25, typeMod: -1, isKey: true },
+        { name: 'val', typeOid: 25, typeMod: -1 },
+      ]
+      const buf = encodeDelete(16384, { id: '42', val: 'x' }, cols)
+
+      expect(r16(buf, 6)).toBe(2)
+      expect(buf[8]).toBe(0x74) // 't'
+      expect(rText(buf, 9)[0]).toBe('42')
+      expect(buf[15]).toBe(0x6e) // 'n'
+      expect(buf.length).toBe(16)
+    })
+
+    it('sends the whole old row for a full identity', () => {
+      const cols: ColumnInfo[] = [
+        { name: 'id', typeOid: 25, typeMod: -1, isKey: true },
+        { name: 'val', typeOid: 25, typeMod: -1, isKey: true },
+      ]
+      const buf = encodeDelete(16384, { id: '42', val: 'x' }, cols, 'full')
+
+      expect(buf[5]).toBe(0x4f) // 'O'
+      expect(rText(buf, 16)[0]).toBe('x')
+    })
+  })
+
+  describe('encodeTruncate', () => {
+    it('encodes relations and options', () => {
+      const buf = encodeTruncate([16384, 16385], TRUNCATE_CASCADE)
+
+      expect(buf[0]).toBe(0x54) // 'T'
+      expect(r32(buf, 1)).toBe(2)
+      expect(buf[5]).toBe(1)
+      expect(r32(buf, 6)).toBe(16384)
+      expect(r32(buf, 10)).toBe(16385)
+      expect(buf.length).toBe(14)
+    })
   })
 
   describe('wrapXLogData', () => {
@@ -368,6 +411,62 @@ describe('pgoutput-encoder', () => {
 
   // roundtrip tests: encode with orez → parse with zero-cache's parser
   // this validates the fundamental contract between orez and zero-cache
+  describe('encodeType', () => {
+    it('encodes oid, namespace and name', () => {
+      const buf = encodeType(16390, 'public', 'mood')
+
+      expect(buf[0]).toBe(0x59) // 'Y'
+      expect(r32(buf, 1)).toBe(16390)
+      const [schema, afterSchema] = rCStr(buf, 5)
+      expect(schema).toBe('public')
+      const [name, end] = rCStr(buf, afterSchema)
+      expect(name).toBe('mood')
+      expect(end).toBe(buf.length)
+    })
+  })
+
+  describe('array values', () => {
+    function arrayText(val: unknown): string {
+      const cols: ColumnInfo[] = [
+        { name: 'tags', typeOid: 1009, typeMod: -1, isArray: true },
+      ]
+      const buf = encodeInsert(1, { tags: val }, cols)
+      // 'I' + oid + 'N' + ncols + 't'
+      return rText(buf, 1 + 4 + 1 + 2 + 1)[0]
+    }
+
+    it('encodes arrays as postgres array literals', () => {
+      expect(arrayText(['a', 'b'])).toBe('{a,b}')
+      expect(arrayText([1, 2, 3])).toBe('{1,2,3}')
+      expect(arrayText([true, false])).toBe('{t,f}')
+      expect(arrayText([])).toBe('{}')
+      expect(
+        arrayText([
+          [1, 2],
+          [3, 4],
+        ])
+      ).toBe('{{1,2},{3,4}}')
+    })
+
+    it('writes NULL for null elements and quotes the string "NULL"', () => {
+      expect(arrayText(['a', null])).toBe('{a,NULL}')
+      expect(arrayText(['null', ''])).toBe('{"null",""}')
+    })
+
+    it('quotes and escapes special characters', () => {
+      expect(arrayText(['b c', 'd,e', '{f}'])).toBe('{"b c","d,e","{f}"}')
+      expect(arrayText(['say "hi"', 'back\\slash'])).toBe(
+        '{"say \\"hi\\"","back\\\\slash"}'
+      )
+    })
+
+    it('leaves non-array columns as json', () => {
+      const cols: ColumnInfo[] = [{ name: 'tags', typeOid: 3802, typeMod: -1 }]
+      const buf = encodeInsert(1, { tags: ['a', 'b c'] }, cols)
+      expect(rText(buf, 9)[0]).toBe('["a","b c"]')
+    })
+  })
+
   describe('roundtrip: orez encoder → zero-cache parser', () => {
     // relative path bypasses package.json exports restriction
     const parserPath = join(
@@ -444,6 +543,42 @@ describe('pgoutput-encoder', () => {
       expect(parsed.new.val).toBe('hello')
     })
 
+    it('TYPE roundtrip', () => {
+      const parser = makeParser()
+      const parsed = parser.parse(encodeType(16390, 'public', 'mood'))
+
+      expect(parsed).toEqual({
+        tag: 'type',
+        typeOid: 16390,
+        typeSchema: 'public',
+        typeName: 'mood',
+      })
+    })
+
+    it('INSERT with array values', async () => {
+      // zero-cache parses arrays with postgres.js's array parser
+      const { arrayParser } = await import(
+        join(import.meta.dirname, '../../node_modules/postgres/src/types.js')
+      )
+      const arrayParsers = {
+        getTypeParser: (oid: number) =>
+          oid === 1009
+            ? (val: string) => arrayParser(val.substring(1), String, 1009)
+            : String,
+      }
+      const oid = getTableOid('rt.array_test')
+      const cols: ColumnInfo[] = [
+        { name: 'id', typeOid: 25, typeMod: -1, isKey: true },
+        { name: 'tags', typeOid: 1009, typeMod: -1, isArray: true },
+      ]
+      const parser = new PgoutputParser(arrayParsers)
+      parser.parse(encodeRelation(oid, 'public', 'array_test', 0x64, cols))
+
+      const tags = ['plain', 'with space', 'a,b', '{}', 'say "hi"', 'back\\slash', '']
+      const parsed = parser.parse(encodeInsert(oid, { id: 'x', tags }, cols))
+      expect(parsed.new.tags).toEqual(tags)
+    })
+
     it('INSERT with null', () => {
       const oid = getTableOid('rt.null_test')
       const cols: ColumnInfo[] = [
@@ -504,6 +639,35 @@ describe('pgoutput-encoder', () => {
       expect(parsed.key.id).toBe('gone')
     })
 
+    it('TRUNCATE roundtrip', () => {
+      const oid = getTableOid('rt.truncate_test')
+      const cols: ColumnInfo[] = [{ name: 'id', typeOid: 25, typeMod: -1, isKey: true }]
+      const parser = makeParser()
+      parser.parse(encodeRelation(oid, 'public', 'truncate_test', 0x64, cols))
+
+      const parsed = parser.parse(
+        encodeTruncate([oid], TRUNCATE_CASCADE | TRUNCATE_RESTART_IDENTITY)
+      )
+      expect(parsed.tag).toBe('truncate')
+      expect(parsed.cascade).toBe(true)
+      expect(parsed.restartIdentity).toBe(true)
+      expect(parsed.relations.map((r: { name: string }) => r.name)).toEqual([
+        'truncate_test',
+      ])
+    })
+
+    it('MESSAGE roundtrip', () => {
+      const parsed = makeParser().parse(
+        encodeMessage(0x1000300n, 'zero/0', '{"type":"ddlStart"}', true)
+      )
+      expect(parsed.tag).toBe('message')
+      expect(parsed.flags).toBe(1)
+      expect(parsed.transactional).toBe(true)
+      expect(parsed.messageLsn).toBe('00000000/01000300')
+      expect(parsed.prefix).toBe('zero/0')
+      expect(new TextDecoder().decode(parsed.content)).toBe('{"type":"ddlStart"}')
+    })
+
     it('full transaction: BEGIN → RELATION → INSERT → COMMIT', () => {
       const parser = makeParser()
       const lsn = 0x2000000n
@@ -28,6 +28,8 @@ export interface ColumnInfo {
   typeOid: number
   typeMod: number
   isKey?: boolean
+  // values are sent as postgres array literals
+  isArray?: boolean
 }
 
 // infer columns from a jsonb row
@@ -133,6 +135,43 @@ export function encodeRelation(
   return buf
 }
 
+// encode a TYPE message, describing a non-builtin type used by a relation
+export function encodeType(
+  typeOid: number,
+  schema: string,
+  typeName: string
+): Uint8Array {
+  const schemaBytes = encodeString(schema)
+  const nameBytes = encodeString(typeName)
+  const buf = new Uint8Array(1 + 4 + schemaBytes.length + 1 + nameBytes.length + 1)
+  buf[0] = 0x59 // 'Y'
+  writeInt32(buf, 1, typeOid)
+  buf.set(schemaBytes, 5)
+  buf.set(nameBytes, 6 + schemaBytes.length)
+  return buf
+}
+
+// convert a jsonb value to postgresql text format
+function textValue(val: unknown): string {
+  if (typeof val === 'boolean') return val ? 't' : 'f'
+  if (typeof val === 'object') return JSON.stringify(val)
+  return String(val)
+}
+
+// convert a jsonb array to a postgresql array literal, e.g. {a,"b c",NULL}
+function arrayLiteral(val: unknown[]): string {
+  const elements = val.map((el) => {
+    if (el === null || el === undefined) return 'NULL'
+    if (Array.isArray(el)) return arrayLiteral(el)
+    const str = textValue(el)
+    if (str === '' || str.toUpperCase() === 'NULL' || /[{},"\\\s]/.test(str)) {
+      return `"${str.replace(/[\\"]/g, '\\$&')}"`
+    }
+    return str
+  })
+  return `{${elements.join(',')}}`
+}
+
 function encodeTupleData(
   row: Record<string, unknown>,
   columns: ColumnInfo[]
@@ -147,15 +186,8 @@ function encodeTupleData(
       values.push(null)
       totalSize += 1 // 'n' byte
     } else {
-      // convert to postgresql text format
-      let strVal: string
-      if (typeof val === 'boolean') {
-        strVal = val ? 't' : 'f'
-      } else if (typeof val === 'object') {
-        strVal = JSON.stringify(val)
-      } else {
-        strVal = String(val)
-      }
+      const strVal =
+        col.isArray && Array.isArray(val) ? arrayLiteral(val) : textValue(val)
       const bytes = encodeString(strVal)
       values.push(bytes)
       totalSize += 1 + 4 + bytes.length // 't' + len + data
@@ -197,32 +229,44 @@ export function encodeInsert(
   return buf
 }
 
+// how an UPDATE or DELETE identifies the old row: by its replica identity key
+// ('K', other columns null) or, for REPLICA IDENTITY FULL, by the whole row ('O')
+export type OldTuple = 'key' | 'full'
+
+function encodeOldTuple(
+  oldRow: Record<string, unknown>,
+  columns: ColumnInfo[],
+  oldTuple: OldTuple
+): Uint8Array {
+  const row =
+    oldTuple === 'key'
+      ? Object.fromEntries(
+          columns.filter((col) => col.isKey).map((col) => [col.name, oldRow[col.name]])
+        )
+      : oldRow
+  const tuple = encodeTupleData(row, columns)
+  const buf = new Uint8Array(1 + tuple.length)
+  buf[0] = oldTuple === 'key' ? 0x4b : 0x4f // 'K' key tuple, 'O' old tuple
+  buf.set(tuple, 1)
+  return buf
+}
+
 // encode an UPDATE message
 export function encodeUpdate(
   tableOid: number,
   row: Record<string, unknown>,
   oldRow: Record<string, unknown> | null,
-  columns: ColumnInfo[]
+  columns: ColumnInfo[],
+  oldTuple: OldTuple = 'full'
 ): Uint8Array {
+  const old = oldRow ? encodeOldTuple(oldRow, columns, oldTuple) : new Uint8Array(0)
   const newTuple = encodeTupleData(row, columns)
-
-  if (oldRow) {
-    const oldTuple = encodeTupleData(oldRow, columns)
-    const buf = new Uint8Array(1 + 4 + 1 + oldTuple.length + 1 + newTuple.length)
-    buf[0] = 0x55 // 'U'
-    writeInt32(buf, 1, tableOid)
-    buf[5] = 0x4f // 'O' for old tuple
-    buf.set(oldTuple, 6)
-    buf[6 + oldTuple.length] = 0x4e // 'N' for new tuple
-    buf.set(newTuple, 7 + oldTuple.length)
-    return buf
-  }
-
-  const buf = new Uint8Array(1 + 4 + 1 + newTuple.length)
+  const buf = new Uint8Array(1 + 4 + old.length + 1 + newTuple.length)
   buf[0] = 0x55 // 'U'
   writeInt32(buf, 1, tableOid)
-  buf[5] = 0x4e // 'N'
-  buf.set(newTuple, 6)
+  buf.set(old, 5)
+  buf[5 + old.length] = 0x4e // 'N' for new tuple
+  buf.set(newTuple, 6 + old.length)
   return buf
 }
 
@@ -230,14 +274,48 @@ export function encodeUpdate(
 export function encodeDelete(
   tableOid: number,
   oldRow: Record<string, unknown>,
-  columns: ColumnInfo[]
+  columns: ColumnInfo[],
+  oldTuple: OldTuple = 'key'
 ): Uint8Array {
-  const tuple = encodeTupleData(oldRow, columns)
-  const buf = new Uint8Array(1 + 4 + 1 + tuple.length)
+  const old = encodeOldTuple(oldRow, columns, oldTuple)
+  const buf = new Uint8Array(1 + 4 + old.length)
   buf[0] = 0x44 // 'D'
   writeInt32(buf, 1, tableOid)
-  buf[5] = 0x4b // 'K' for key tuple
-  buf.set(tuple, 6)
+  buf.set(old, 5)
+  return buf
+}
+
+// TRUNCATE option bits
+export const TRUNCATE_CASCADE = 1
+export const TRUNCATE_RESTART_IDENTITY = 2
+
+// encode a TRUNCATE message
+export function encodeTruncate(tableOids: number[], options: number): Uint8Array {
+  const buf = new Uint8Array(1 + 4 + 1 + 4 * tableOids.length)
+  buf[0] = 0x54 // 'T'
+  writeInt32(buf, 1, tableOids.length)
+  buf[5] = options
+  tableOids.forEach((oid, i) => writeInt32(buf, 6 + 4 * i, oid))
+  return buf
+}
+
+// encode a logical decoding MESSAGE
+export function encodeMessage(
+  lsn: bigint,
+  prefix: string,
+  content: string,
+  transactional: boolean
+): Uint8Array {
+  const prefixBytes = encodeString(prefix)
+  const contentBytes = encodeString(content)
+  const buf = new Uint8Array(1 + 1 + 8 + prefixBytes.length + 1 + 4 + contentBytes.length)
+  buf[0] = 0x4d // 'M'
+  buf[1] = transactional ? 1 : 0
+  writeInt64(buf, 2, lsn)
+  buf.set(prefixBytes, 10)
+  buf[10 + prefixBytes.length] = 0
+  writeInt32(buf, 11 + prefixBytes.length, contentBytes.length)
+  buf.set(contentBytes, 15 + prefixBytes.length)
   return buf
 }
 
@@ -0,0 +1,63 @@
+import { PGlite } from '@electric-sql/pglite'
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+
+import {
+  hasReplicaIdentity,
+  loadReplicaIdentities,
+  type ReplicaIdentity,
+} from './replica-identity'
+
+describe('replica-identity', () => {
+  let db: PGlite
+  let identities: Map<string, ReplicaIdentity>
+
+  beforeAll(async () => {
+    db = new PGlite()
+    await db.waitReady
+    await db.exec(`
+      CREATE TABLE public.by_pk (a INTEGER, b INTEGER, label TEXT, PRIMARY KEY (a, b));
+      CREATE TABLE public.by_index (id INTEGER NOT NULL, label TEXT);
+      CREATE UNIQUE INDEX by_index_id ON public.by_index (id);
+      ALTER TABLE public.by_index REPLICA IDENTITY USING INDEX by_index_id;
+      CREATE TABLE public.by_row (label TEXT);
+      ALTER TABLE public.by_row REPLICA IDENTITY FULL;
+      CREATE TABLE public.keyless (label TEXT);
+      CREATE TABLE public.disowned (id INTEGER PRIMARY KEY, label TEXT);
+      ALTER TABLE public.disowned REPLICA IDENTITY NOTHING;
+    `)
+    identities = await loadReplicaIdentities(db, 'public')
+  })
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  it('uses the primary key by default', () => {
+    const identity = identities.get('public.by_pk')!
+    expect(identity.kind).toBe('d')
+    expect([...identity.keyColumns].sort()).toEqual(['a', 'b'])
+    expect(hasReplicaIdentity(identity)).toBe(true)
+  })
+
+  it('uses the chosen unique index', () => {
+    const identity = identities.get('public.by_index')!
+    expect(identity.kind).toBe('i')
+    expect([...identity.keyColumns]).toEqual(['id'])
+    expect(hasReplicaIdentity(identity)).toBe(true)
+  })
+
+  it('uses the whole row when full', () => {
+    const identity = identities.get('public.by_row')!
+    expect(identity.kind).toBe('f')
+    expect(hasReplicaIdentity(identity)).toBe(true)
+  })
+
+  it('has no identity without a primary key or with identity nothing', () => {
+    for (const table of ['public.keyless', 'public.disowned']) {
+      const identity = identities.get(table)!
+      expect(identity.keyColumns.size).toBe(0)
+      expect(hasReplicaIdentity(identity)).toBe(false)
+    }
+    expect(identities.get('public.disowned')!.kind).toBe('n')
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * replica identities for replication.
+ *
+ * resolves how each table identifies the old row of an UPDATE or DELETE from
+ * pg_class.relreplident, the way pgoutput does: by its primary key (default),
+ * by a chosen unique index, by the whole row (full), or not at all.
+ */
+
+import type { PGlite } from '@electric-sql/pglite'
+
+export interface ReplicaIdentity {
+  // relreplident: 'd' default, 'i' index, 'f' full, 'n' nothing
+  kind: 'd' | 'i' | 'f' | 'n'
+  // columns of the primary key or replica identity index. empty when the
+  // table has no usable key, including when its identity index was dropped.
+  keyColumns: Set<string>
+}
+
+/** whether a table's UPDATEs and DELETEs can be replicated. */
+export function hasReplicaIdentity(identity: ReplicaIdentity): boolean {
+  return identity.kind === 'f' || identity.keyColumns.size > 0
+}
+
+/**
+ * the replica identity of every table in a schema, keyed by `schema.table`.
+ */
+export async function loadReplicaIdentities(
+  db: PGlite,
+  schema: string
+): Promise<Map<string, ReplicaIdentity>> {
+  const result = await db.query<{
+    table_name: string
+    replident: ReplicaIdentity['kind']
+    column_name: string | null
+  }>(
+    `SELECT c.relname AS table_name, c.relreplident AS replident,
+            a.attname AS column_name
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     LEFT JOIN pg_index i ON i.indrelid = c.oid
+       AND ((c.relreplident = 'd' AND i.indisprimary)
+         OR (c.relreplident = 'i' AND i.indisreplident))
+     LEFT JOIN pg_attribute a ON a.attrelid = c.oid
+       AND a.attnum = ANY(i.indkey)
+     WHERE n.nspname = $1
+       AND c.relkind IN ('r', 'p')`,
+    [schema]
+  )
+
+  const identities = new Map<string, ReplicaIdentity>()
+  for (const { table_name, replident, column_name } of result.rows) {
+    const key = `${schema}.${table_name}`
+    let identity = identities.get(key)
+    if (!identity) {
+      identity = { kind: replident, keyColumns: new Set() }
+      identities.set(key, identity)
+    }
+    if (column_name) identity.keyColumns.add(column_name)
+  }
+  return identities
+}
@@ -0,0 +1,83 @@
+import { PGlite } from '@electric-sql/pglite'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+
+import { installChangeTracking } from './change-tracker'
+import { getRowHistory } from './row-history'
+
+describe('row-history', () => {
+  let db: PGlite
+
+  beforeEach(async () => {
+    db = new PGlite()
+    await db.waitReady
+    await db.exec(`
+      CREATE TABLE public.items (id INTEGER PRIMARY KEY, name TEXT, tags JSONB);
+      CREATE TABLE public.members (org TEXT, user_id INTEGER, role TEXT,
+        PRIMARY KEY (org, user_id));
+    `)
+    await installChangeTracking(db)
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  it('lists the changes of a row with their diffs', async () => {
+    await db.exec(`
+      INSERT INTO public.items VALUES (1, 'a', '["x"]'), (2, 'other', null);
+      UPDATE public.items SET name = 'b' WHERE id = 1;
+      UPDATE public.items SET name = 'b', tags = '["x", "y"]' WHERE id = 1;
+      DELETE FROM public.items WHERE id = 1;
+    `)
+
+    const history = await getRowHistory(db, 'items', { id: 1 })
+    expect(history.map(({ op, diff }) => ({ op, diff }))).toEqual([
+      {
+        op: 'INSERT',
+        diff: { id: { after: 1 }, name: { after: 'a' }, tags: { after: ['x'] } },
+      },
+      { op: 'UPDATE', diff: { name: { before: 'a', after: 'b' } } },
+      { op: 'UPDATE', diff: { tags: { before: ['x'], after: ['x', 'y'] } } },
+      {
+        op: 'DELETE',
+        diff: { id: { before: 1 }, name: { before: 'b' }, tags: { before: ['x', 'y'] } },
+      },
+    ])
+    expect(history[0]).toMatchObject({
+      row: { id: 1, name: 'a', tags: ['x'] },
+      oldRow: null,
+      connectionId: null,
+      applicationName: null,
+    })
+    expect(history[1].watermark).toBeGreaterThan(history[0].watermark)
+  })
+
+  it('follows a row through key changes and truncates', async () => {
+    await db.exec(`
+      TRUNCATE public.items;
+      INSERT INTO public.items VALUES (1, 'a', null);
+      UPDATE public.items SET id = 2 WHERE id = 1;
+      TRUNCATE public.items;
+    `)
+
+    expect(
+      (await getRowHistory(db, 'public.items', { id: '1' })).map((e) => e.op)
+    ).toEqual(['INSERT', 'UPDATE', 'TRUNCATE'])
+    const renamed = await getRowHistory(db, 'items', { id: 2 })
+    expect(renamed.map((e) => e.op)).toEqual(['UPDATE', 'TRUNCATE'])
+    expect(renamed[0].diff).toEqual({ id: { before: 1, after: 2 } })
+    expect(renamed[1]).toMatchObject({ row: null, oldRow: null, diff: {} })
+  })
+
+  it('matches every column of a composite key', async () => {
+    await db.exec(`
+      INSERT INTO public.members VALUES ('acme', 1, 'admin'), ('acme', 2, 'member'),
+        ('other', 1, 'member');
+      UPDATE public.members SET role = 'owner' WHERE org = 'acme' AND user_id = 1;
+    `)
+
+    const history = await getRowHistory(db, 'members', { org: 'acme', user_id: 1 })
+    expect(history.map((e) => e.op)).toEqual(['INSERT', 'UPDATE'])
+    expect(await getRowHistory(db, 'members', { org: 'none', user_id: 1 })).toEqual([])
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * the history of one row, read off the change log.
+ *
+ * changes are normally purged as soon as every replication client flushed
+ * them, so a row's history only reaches back as far as the change log was
+ * kept: with `changeHistory` set, for its hours or megabytes. a row is found by
+ * its primary key in the new or old row of each change, so an UPDATE that
+ * changes the key shows up in the history of both the old and the new key.
+ */
+
+import { isDeepStrictEqual } from 'node:util'
+
+import { getInstanceMutex } from '../mutex.js'
+
+import type { ChangeRecord } from './change-tracker.js'
+import type { PGlite } from '@electric-sql/pglite'
+
+// primary key columns and their values
+export type RowKey = Record<string, string | number | boolean>
+
+// a column's value before and after a change. a side is missing where the
+// row didn't exist: before an INSERT, after a DELETE.
+export interface ColumnChange {
+  before?: unknown
+  after?: unknown
+}
+
+export interface RowHistoryEntry {
+  op: 'INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE'
+  row: Record<string, unknown> | null
+  oldRow: Record<string, unknown> | null
+  // the columns that changed. a TRUNCATE lists none.
+  diff: Record<string, ColumnChange>
+  watermark: number
+  txid: number
+  changedAt: string
+  // proxy connection and application_name that wrote it, if recorded
+  connectionId: number | null
+  applicationName: string | null
+}
+
+function qualify(table: string): string {
+  return table.includes('.') ? table : `public.${table}`
+}
+
+function diffRows(
+  oldRow: Record<string, unknown> | null,
+  row: Record<string, unknown> | null
+): Record<string, ColumnChange> {
+  const diff: Record<string, ColumnChange> = {}
+  for (const column of new Set([
+    ...Object.keys(oldRow ?? {}),
+    ...Object.keys(row ?? {}),
+  ])) {
+    if (oldRow && row && isDeepStrictEqual(oldRow[column], row[column])) continue
+    diff[column] = {
+      ...(oldRow && { before: oldRow[column] }),
+      ...(row && { after: row[column] }),
+    }
+  }
+  return diff
+}
+
+/**
+ * every retained change of the row of `table` (`schema.table`, or a table in
+ * public) with primary key `key`, oldest first. TRUNCATEs of the table after
+ * the row's first change are included, as they removed it.
+ */
+export async function getRowHistory(
+  db: PGlite,
+  table: string,
+  key: RowKey
+): Promise<RowHistoryEntry[]> {
+  const columns = Object.keys(key)
+  if (columns.length === 0) throw new Error('row key has no columns')
+
+  // key values compare as text, as the jsonb values of any type read with ->>
+  const params: unknown[] = [qualify(table)]
+  const matches = (data: string) =>
+    columns
+      .map((column) => {
+        params.push(column, String(key[column]))
+        return `${data}->>$${params.length - 1} = $${params.length}`
+      })
+      .join(' AND ')
+  const query = `SELECT * FROM _orez._zero_changes
+     WHERE table_name = $1
+       AND (op = 'TRUNCATE' OR (${matches('row_data')}) OR (${matches('old_data')}))
+     ORDER BY watermark`
+
+  const mutex = getInstanceMutex(db)
+  await mutex.acquire()
+  let changes: ChangeRecord[]
+  try {
+    changes = (await db.query<ChangeRecord>(query, params)).rows
+  } finally {
+    mutex.release()
+  }
+
+  const first = changes.findIndex((change) => change.op !== 'TRUNCATE')
+  if (first === -1) return []
+  return changes.slice(first).flatMap((change) => {
+    if (change.op === 'MESSAGE') return []
+    const truncate = change.op === 'TRUNCATE'
+    const row = truncate ? null : change.row_data
+    const oldRow = truncate ? null : change.old_data
+    return [
+      {
+        op: change.op,
+        row,
+        oldRow,
+        diff: truncate ? {} : diffRows(oldRow, row),
+        watermark: Number(change.watermark),
+        txid: Number(change.txid),
+        changedAt: new Date(change.changed_at).toISOString(),
+        connectionId: change.connection_id,
+        applicationName: change.application_name,
+      },
+    ]
+  })
+}
@@ -0,0 +1,74 @@
+import { PGlite } from '@electric-sql/pglite'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+
+import { installChangeTracking } from './change-tracker'
+import {
+  exportSnapshot,
+  importSnapshot,
+  parseSnapshotImport,
+  recordSnapshotReads,
+  releaseSnapshot,
+} from './snapshots'
+
+describe('snapshots', () => {
+  let db: PGlite
+
+  beforeEach(async () => {
+    db = new PGlite()
+    await db.waitReady
+    await db.exec(`CREATE TABLE public.items (id INTEGER PRIMARY KEY)`)
+    await installChangeTracking(db)
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  it('names each exported snapshot uniquely', () => {
+    const first = exportSnapshot(db, 'a', 0)
+    const second = exportSnapshot(db, 'b', 0)
+    expect(first).toMatch(/^[0-9A-F]{8}-[0-9A-F]{8}-\d+$/)
+    expect(second).not.toBe(first)
+  })
+
+  it('parses SET TRANSACTION SNAPSHOT', () => {
+    expect(parseSnapshotImport(`SET TRANSACTION SNAPSHOT '00000003-00000001-1'`)).toBe(
+      '00000003-00000001-1'
+    )
+    expect(parseSnapshotImport('SET TRANSACTION ISOLATION LEVEL SERIALIZABLE')).toBe(null)
+  })
+
+  it('records the tables read at the watermark of the import', async () => {
+    const name = exportSnapshot(db, 'slot', 0)
+    await db.exec(`INSERT INTO public.items VALUES (1), (2)`)
+
+    const imported = (await importSnapshot(db, name))!
+    expect(imported.watermark).toBeGreaterThan(0)
+    recordSnapshotReads(
+      imported,
+      `COPY (SELECT "id" FROM "public"."items") TO STDOUT;
+       SELECT * FROM chat_0.clients c JOIN "Mixed" m ON true`
+    )
+
+    expect(releaseSnapshot(db, 'slot')).toEqual(
+      new Map([
+        ['public.items', imported.watermark],
+        ['chat_0.clients', imported.watermark],
+        ['public.Mixed', imported.watermark],
+      ])
+    )
+  })
+
+  it('invalidates a snapshot once its slot releases it', async () => {
+    const name = exportSnapshot(db, 'slot', 0)
+    expect(releaseSnapshot(db, 'slot')).toEqual(new Map())
+    expect(await importSnapshot(db, name)).toBe(null)
+    expect(releaseSnapshot(db, 'slot')).toBe(null)
+  })
+
+  it('replaces the snapshot of a recreated slot', async () => {
+    const old = exportSnapshot(db, 'slot', 0)
+    exportSnapshot(db, 'slot', 0)
+    expect(await importSnapshot(db, old)).toBe(null)
+  })
+})
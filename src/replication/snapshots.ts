@@ -0,0 +1,114 @@
+/**
+ * snapshots exported by replication slots.
+ *
+ * CREATE_REPLICATION_SLOT exports a snapshot at the slot's consistent point,
+ * which zero-cache's initial copy imports with SET TRANSACTION SNAPSHOT. pglite
+ * has a single session and can't read an older state, but a transaction holds
+ * the instance until it ends, so one importing the snapshot reads everything as
+ * of the watermark it started at. the tables it reads are recorded at that
+ * watermark, and streaming from the slot skips their changes up to it: each
+ * table's stream starts exactly after its copied state.
+ */
+
+import { log } from '../log.js'
+import { getCurrentWatermark } from './change-tracker.js'
+
+import type { PGlite } from '@electric-sql/pglite'
+
+interface ExportedSnapshot {
+  slot: string
+  // watermark at slot creation, the consistent point
+  watermark: number
+  // `schema.table` → watermark its rows were copied at
+  copied: Map<string, number>
+}
+
+export interface ImportedSnapshot {
+  snapshot: ExportedSnapshot
+  // watermark the importing transaction reads the database at
+  watermark: number
+}
+
+const exportedSnapshots = new WeakMap<PGlite, Map<string, ExportedSnapshot>>()
+let exported = 0
+
+function getSnapshots(db: PGlite): Map<string, ExportedSnapshot> {
+  let snapshots = exportedSnapshots.get(db)
+  if (!snapshots) {
+    snapshots = new Map()
+    exportedSnapshots.set(db, snapshots)
+  }
+  return snapshots
+}
+
+/**
+ * export a snapshot for a new slot at its consistent point. returns the
+ * snapshot name, in postgres' `XXXXXXXX-XXXXXXXX-N` form.
+ */
+export function exportSnapshot(db: PGlite, slot: string, watermark: number): string {
+  releaseSnapshot(db, slot)
+  const hex = (n: number) => n.toString(16).toUpperCase().padStart(8, '0')
+  const name = `00000003-${hex(watermark)}-${++exported}`
+  getSnapshots(db).set(name, { slot, watermark, copied: new Map() })
+  return name
+}
+
+/**
+ * import a snapshot into the transaction holding the instance. null if no slot
+ * exported it, or its slot already started streaming.
+ */
+export async function importSnapshot(
+  db: PGlite,
+  name: string
+): Promise<ImportedSnapshot | null> {
+  const snapshot = exportedSnapshots.get(db)?.get(name)
+  if (!snapshot) return null
+  const watermark = await getCurrentWatermark(db)
+  log.debug.proxy(
+    `snapshot ${name} of slot "${snapshot.slot}" (watermark ${snapshot.watermark}) imported at watermark ${watermark}`
+  )
+  return { snapshot, watermark }
+}
+
+/** the snapshot name of a SET TRANSACTION SNAPSHOT statement, if it is one. */
+export function parseSnapshotImport(query: string): string | null {
+  const match = query.match(/^\s*SET\s+TRANSACTION\s+SNAPSHOT\s+'([^']*)'/i)
+  return match ? match[1] : null
+}
+
+// relations named after FROM or JOIN: `"schema"."table"`, `schema.table` or
+// `table` (in public)
+const RELATION_PATTERN =
+  /\b(?:FROM|JOIN)\s+("(?:[^"]|"")+"|[A-Za-z_][\w$]*)(?:\s*\.\s*("(?:[^"]|"")+"|[A-Za-z_][\w$]*))?/gi
+
+function identifier(raw: string): string {
+  return raw.startsWith('"') ? raw.slice(1, -1).replace(/""/g, '"') : raw.toLowerCase()
+}
+
+/**
+ * record the tables a query in a snapshot-importing transaction reads as
+ * copied at the transaction's watermark.
+ */
+export function recordSnapshotReads(imported: ImportedSnapshot, query: string): void {
+  for (const [, first, second] of query.matchAll(RELATION_PATTERN)) {
+    const table = second
+      ? `${identifier(first)}.${identifier(second)}`
+      : `public.${identifier(first)}`
+    imported.snapshot.copied.set(table, imported.watermark)
+  }
+}
+
+/**
+ * drop the snapshot a slot exported, when it starts streaming or is dropped.
+ * returns the watermark each table was copied at, keyed by `schema.table`.
+ */
+export function releaseSnapshot(db: PGlite, slot: string): Map<string, number> | null {
+  const snapshots = exportedSnapshots.get(db)
+  if (!snapshots) return null
+  for (const [name, snapshot] of snapshots) {
+    if (snapshot.slot !== slot) continue
+    snapshots.delete(name)
+    return snapshot.copied
+  }
+  return null
+}
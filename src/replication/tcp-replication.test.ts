@@ -9,14 +9,19 @@
  * query routing) that unit tests on individual components miss.
  */
 
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
 import { createConnection, type Socket } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { connect as tlsConnect } from 'node:tls'
 
 import { PGlite } from '@electric-sql/pglite'
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 
 import { getConfig } from '../config'
 import { startPgProxy } from '../pg-proxy'
-import { installChangeTracking } from './change-tracker'
+import { countChanges, installChangeTracking } from './change-tracker'
+import { getPurgedWatermark, getReplicationStatus, waitForReplication } from './handler'
 
 import type { Server, AddressInfo } from 'node:net'
 
@@ -206,8 +211,8 @@ function decodePgOutput(data: Uint8Array): PgOutputMessage {
       const tableOid = r32(data, 1)
       let pos = 5
       let oldTupleData: TupleData | undefined
-      if (data[pos] === 0x4f) {
-        // 'O' old tuple
+      if (data[pos] === 0x4f || data[pos] === 0x4b) {
+        // 'O' old tuple or 'K' old key
         pos++
         const [old, np] = decodeTupleData(data, pos)
         oldTupleData = old
@@ -295,6 +300,22 @@ function buildQuery(sql: string): Buffer {
   return buf
 }
 
+// CopyData(StandbyStatusUpdate) with the same write, flush and apply lsn
+function buildStandbyStatusUpdate(lsn: bigint): Buffer {
+  const buf = Buffer.alloc(1 + 4 + 1 + 8 * 4 + 1)
+  buf[0] = 0x64 // 'd'
+  buf.writeInt32BE(buf.length - 1, 1)
+  buf[5] = 0x72 // 'r'
+  buf.writeBigUInt64BE(lsn, 6)
+  buf.writeBigUInt64BE(lsn, 14)
+  buf.writeBigUInt64BE(lsn, 22)
+  return buf
+}
+
+function formatLsn(lsn: bigint): string {
+  return `${(lsn >> 32n).toString(16).toUpperCase()}/${(lsn & 0xffffffffn).toString(16).toUpperCase()}`
+}
+
 interface PgMessage {
   type: number
   data: Buffer
@@ -310,6 +331,23 @@ function parseMessage(buf: Buffer): [PgMessage | null, Buffer] {
   return [{ type, data: buf.subarray(0, totalLen) }, buf.subarray(totalLen)]
 }
 
+// the column values of a DataRow message
+function readDataRow(msg: PgMessage): Array<string | null> {
+  const values: Array<string | null> = []
+  let pos = 7
+  for (let i = 0; i < msg.data.readInt16BE(5); i++) {
+    const len = msg.data.readInt32BE(pos)
+    pos += 4
+    if (len === -1) {
+      values.push(null)
+      continue
+    }
+    values.push(msg.data.toString('utf8', pos, pos + len))
+    pos += len
+  }
+  return values
+}
+
 // higher-level client that connects, authenticates, and can send queries
 class TestPgClient {
   private socket!: Socket
@@ -327,6 +365,8 @@ class TestPgClient {
     password: string
     database: string
     replication?: boolean
+    // negotiate TLS first, trusting this certificate
+    ca?: string
   }): Promise<void> {
     this.socket = createConnection({ port: this.port, host: '127.0.0.1' })
 
@@ -335,6 +375,23 @@ class TestPgClient {
       this.socket.once('error', reject)
     })
 
+    if (opts.ca) {
+      const sslRequest = Buffer.alloc(8)
+      sslRequest.writeInt32BE(8, 0)
+      sslRequest.writeInt32BE(80877103, 4)
+      this.socket.write(sslRequest)
+      const answer = await new Promise<Buffer>((resolve) =>
+        this.socket.once('data', resolve)
+      )
+      expect(answer.toString()).toBe('S')
+      const secure = tlsConnect({ socket: this.socket, ca: opts.ca, host: '127.0.0.1' })
+      await new Promise<void>((resolve, reject) => {
+        secure.once('secureConnect', resolve)
+        secure.once('error', reject)
+      })
+      this.socket = secure
+    }
+
     this.socket.on('data', (chunk: Buffer) => {
       this.buffer = Buffer.concat([this.buffer, chunk])
       this.drain()
@@ -471,6 +528,7 @@ describe('tcp replication', () => {
     const config = {
       ...getConfig(),
       pgPort: 0, // random port
+      pgAuthMethod: 'password' as const, // TestPgClient sends a cleartext password
     }
     server = await startPgProxy(db, config)
     port = (server.address() as AddressInfo).port
@@ -608,7 +666,7 @@ describe('tcp replication', () => {
     replClient.close()
   }, 15_000)
 
-  it('streams updates with old + new tuple data', async () => {
+  it('streams updates with new tuple data and the old key', async () => {
     const replClient = new TestPgClient(port)
     await replClient.connect({
       user: 'user',
@@ -625,10 +683,12 @@ describe('tcp replication', () => {
 
     await replClient.collectStream(200) // skip CopyBothResponse
 
-    await db.exec(`INSERT INTO public.items (name, value) VALUES ('upd_target', 10)`)
+    await db.exec(
+      `INSERT INTO public.items (id, name, value) VALUES (1000, 'upd_target', 10)`
+    )
     await replClient.collectStream(1500)
 
-    await db.exec(`UPDATE public.items SET value = 20 WHERE name = 'upd_target'`)
+    await db.exec(`UPDATE public.items SET id = 1001, value = 20 WHERE id = 1000`)
     const stream = await replClient.collectStream(1500)
 
     const decoded: PgOutputMessage[] = []
@@ -644,10 +704,12 @@ describe('tcp replication', () => {
     // new data should have value=20
     const newValues = update.newTupleData.columns.map((c) => c.value)
     expect(newValues).toContain('20')
-    // old data should have value=10
+    expect(newValues).toContain('1001')
+    // the key changed, so the old key is sent, without the other columns
     expect(update.oldTupleData).toBeDefined()
     const oldValues = update.oldTupleData!.columns.map((c) => c.value)
-    expect(oldValues).toContain('10')
+    expect(oldValues).toContain('1000')
+    expect(oldValues).not.toContain('10')
 
     replClient.close()
   }, 15_000)
@@ -669,10 +731,12 @@ describe('tcp replication', () => {
 
     await replClient.collectStream(200)
 
-    await db.exec(`INSERT INTO public.items (name, value) VALUES ('del_target', 99)`)
+    await db.exec(
+      `INSERT INTO public.items (id, name, value) VALUES (2000, 'del_target', 99)`
+    )
     await replClient.collectStream(1500)
 
-    await db.exec(`DELETE FROM public.items WHERE name = 'del_target'`)
+    await db.exec(`DELETE FROM public.items WHERE id = 2000`)
     const stream = await replClient.collectStream(1500)
 
     const decoded: PgOutputMessage[] = []
@@ -686,11 +750,149 @@ describe('tcp replication', () => {
     const del = decoded.find((m) => m.type === 'Delete') as DeleteMessage
     expect(del).toBeDefined()
     const keyValues = del.keyTupleData.columns.map((c) => c.value)
-    expect(keyValues).toContain('del_target')
+    expect(keyValues).toContain('2000')
+    expect(keyValues).not.toContain('del_target')
 
     replClient.close()
   }, 15_000)
 
+  it('streams replication changes over tls', async () => {
+    const dataDir = mkdtempSync(join(tmpdir(), 'orez-tls-'))
+    const tlsServer = await startPgProxy(db, {
+      ...getConfig(),
+      pgPort: 0,
+      pgAuthMethod: 'password',
+      dataDir,
+      pgTls: true,
+    })
+    const ca = readFileSync(join(dataDir, 'tls-cert.pem'), 'utf-8')
+    const replClient = new TestPgClient((tlsServer.address() as AddressInfo).port)
+    try {
+      await replClient.connect({
+        user: 'user',
+        password: 'password',
+        database: 'postgres',
+        replication: true,
+        ca,
+      })
+      await replClient.query(
+        'CREATE_REPLICATION_SLOT "tls_test" TEMPORARY LOGICAL pgoutput NOEXPORT_SNAPSHOT'
+      )
+      await replClient.startReplication(
+        "START_REPLICATION SLOT \"tls_test\" LOGICAL 0/0 (proto_version '1', publication_names 'zero_takeout')"
+      )
+      await db.exec(`INSERT INTO public.items (name, value) VALUES ('over_tls', 7)`)
+
+      const decoded = (await replClient.collectStream(3000))
+        .filter((m) => m.type === 0x64)
+        .map((m) => decodeCopyData(new Uint8Array(m.data)))
+      const insert = decoded.find((m) => m?.type === 'Insert') as InsertMessage
+      expect(insert.tupleData.columns.map((c) => c.value)).toContain('over_tls')
+    } finally {
+      replClient.close()
+      tlsServer.close()
+      rmSync(dataDir, { recursive: true, force: true })
+    }
+  }, 15_000)
+
+  it('reads standby status updates over tls', async () => {
+    const dataDir = mkdtempSync(join(tmpdir(), 'orez-tls-'))
+    const tlsServer = await startPgProxy(db, {
+      ...getConfig(),
+      pgPort: 0,
+      pgAuthMethod: 'password',
+      dataDir,
+      pgTls: true,
+    })
+    const ca = readFileSync(join(dataDir, 'tls-cert.pem'), 'utf-8')
+    const replClient = new TestPgClient((tlsServer.address() as AddressInfo).port)
+    try {
+      await replClient.connect({
+        user: 'user',
+        password: 'password',
+        database: 'postgres',
+        replication: true,
+        ca,
+      })
+      await replClient.query(
+        'CREATE_REPLICATION_SLOT "tls_ack" TEMPORARY LOGICAL pgoutput NOEXPORT_SNAPSHOT'
+      )
+      await replClient.startReplication(
+        "START_REPLICATION SLOT \"tls_ack\" LOGICAL 0/0 (proto_version '1', publication_names 'zero_takeout')"
+      )
+      await db.exec(`INSERT INTO public.items (name, value) VALUES ('acked', 1)`)
+
+      const commit = (await replClient.collectStream(2000))
+        .filter((m) => m.type === 0x64)
+        .map((m) => decodeCopyData(new Uint8Array(m.data)))
+        .find((m) => m?.type === 'Commit') as CommitMessage
+      expect(commit).toBeDefined()
+      expect(await countChanges(db)).toBeGreaterThan(0)
+
+      // the ack arrives encrypted, so it has to be read after decryption
+      replClient.sendRaw(buildStandbyStatusUpdate(commit.endLsn))
+      await expect
+        .poll(() => getReplicationStatus(db).slots.map((s) => s.flushLsn))
+        .toEqual([formatLsn(commit.endLsn)])
+      // purging runs every few seconds, once every client flushed the changes
+      await expect
+        .poll(() => getPurgedWatermark(db), { timeout: 10_000, interval: 200 })
+        .toBeGreaterThan(0)
+      expect(await countChanges(db)).toBe(0)
+    } finally {
+      replClient.close()
+      tlsServer.close()
+      rmSync(dataDir, { recursive: true, force: true })
+    }
+  }, 20_000)
+
+  it('waits for replication over tls', async () => {
+    const dataDir = mkdtempSync(join(tmpdir(), 'orez-tls-'))
+    const tlsServer = await startPgProxy(db, {
+      ...getConfig(),
+      pgPort: 0,
+      pgAuthMethod: 'password',
+      dataDir,
+      pgTls: true,
+    })
+    const ca = readFileSync(join(dataDir, 'tls-cert.pem'), 'utf-8')
+    const replClient = new TestPgClient((tlsServer.address() as AddressInfo).port)
+    try {
+      await replClient.connect({
+        user: 'user',
+        password: 'password',
+        database: 'postgres',
+        replication: true,
+        ca,
+      })
+      await replClient.query(
+        'CREATE_REPLICATION_SLOT "tls_wait" TEMPORARY LOGICAL pgoutput NOEXPORT_SNAPSHOT'
+      )
+      await replClient.startReplication(
+        "START_REPLICATION SLOT \"tls_wait\" LOGICAL 0/0 (proto_version '1', publication_names 'zero_takeout')"
+      )
+      await db.exec(`INSERT INTO public.items (name, value) VALUES ('waited', 1)`)
+      let caughtUp = false
+      const waiting = waitForReplication(db, { timeout: 8000 }).then(
+        () => (caughtUp = true)
+      )
+
+      const commit = (await replClient.collectStream(2000))
+        .filter((m) => m.type === 0x64)
+        .map((m) => decodeCopyData(new Uint8Array(m.data)))
+        .find((m) => m?.type === 'Commit') as CommitMessage
+      expect(commit).toBeDefined()
+      expect(caughtUp).toBe(false)
+
+      replClient.sendRaw(buildStandbyStatusUpdate(commit.endLsn))
+      await waiting
+    } finally {
+      replClient.close()
+      tlsServer.close()
+      rmSync(dataDir, { recursive: true, force: true })
+    }
+  }, 20_000)
+
   it('handles multiple tables in same stream', async () => {
     // create a second table and re-install tracking for both
     await db.exec(`CREATE TABLE public.products (id SERIAL PRIMARY KEY, label TEXT)`)
@@ -848,4 +1050,103 @@ describe('tcp replication', () => {
     dataClient.close()
     replClient.close()
   }, 15_000)
+
+  it('rejects importing a snapshot no slot exported', async () => {
+    const client = new TestPgClient(port)
+    await client.connect({ user: 'user', password: 'password', database: 'postgres' })
+    await client.query('BEGIN')
+    const response = await client.query(`SET TRANSACTION SNAPSHOT '00000003-00000001-1'`)
+    expect(response[0].type).toBe(0x45) // ErrorResponse
+    expect(response[0].data.toString()).toContain('22023')
+    expect(response[response.length - 1].data[5]).toBe(0x45) // failed transaction
+    await client.query('ROLLBACK')
+    client.close()
+  })
+
+  it('converges when writes continue through the initial copy', async () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+    await db.exec(
+      `INSERT INTO public.items (name, value) SELECT 'seed' || g, g FROM generate_series(1, 50) g`
+    )
+    const login = { user: 'user', password: 'password', database: 'postgres' }
+
+    // inserts, updates and deletes land before, during and after the copy
+    const writer = new TestPgClient(port)
+    await writer.connect(login)
+    let writing = true
+    const writes = (async () => {
+      for (let n = 0; writing; n++) {
+        await writer.query(
+          `INSERT INTO public.items (name, value) VALUES ('w${n}', ${n})`
+        )
+        await writer.query(
+          `UPDATE public.items SET value = value + 1 WHERE id = ${(n % 50) + 1}`
+        )
+        if (n % 3 === 0) {
+          await writer.query(`DELETE FROM public.items WHERE name = 'w${n - 2}'`)
+        }
+      }
+    })()
+
+    const replClient = new TestPgClient(port)
+    await replClient.connect({ ...login, replication: true })
+    const created = await replClient.query(
+      'CREATE_REPLICATION_SLOT "sync_test" LOGICAL pgoutput'
+    )
+    const [, consistentPoint, snapshot] = readDataRow(
+      created.find((m) => m.type === 0x44)!
+    )
+    await sleep(150)
+
+    // the initial copy, the way zero-cache's table copiers run it
+    const replica = new Map<string, string>()
+    const copier = new TestPgClient(port)
+    await copier.connect(login)
+    await copier.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY')
+    const imported = await copier.query(`SET TRANSACTION SNAPSHOT '${snapshot}'`)
+    expect(imported.map((m) => m.type)).not.toContain(0x45)
+    for (const row of (await copier.query('SELECT id, name, value FROM public.items'))
+      .filter((m) => m.type === 0x44)
+      .map(readDataRow)) {
+      replica.set(row[0]!, row.join(','))
+    }
+    await copier.query('COMMIT')
+    copier.close()
+    await sleep(150)
+
+    await replClient.startReplication(
+      `START_REPLICATION SLOT "sync_test" LOGICAL ${consistentPoint} (proto_version '1', publication_names 'zero_takeout')`
+    )
+    await sleep(300)
+    writing = false
+    await writes
+    writer.close()
+
+    // apply the stream to the copy: a change the copy already has would show
+    // up as a duplicate insert or a missing row
+    for (const msg of await replClient.collectStream(2500)) {
+      const decoded = msg.type === 0x64 ? decodeCopyData(new Uint8Array(msg.data)) : null
+      if (decoded?.type === 'Insert') {
+        const row = decoded.tupleData.columns.map((c) => c.value)
+        expect(replica.has(row[0]!), `insert of ${row[0]}`).toBe(false)
+        replica.set(row[0]!, row.join(','))
+      } else if (decoded?.type === 'Update') {
+        const row = decoded.newTupleData.columns.map((c) => c.value)
+        expect(replica.has(row[0]!), `update of ${row[0]}`).toBe(true)
+        replica.set(row[0]!, row.join(','))
+      } else if (decoded?.type === 'Delete') {
+        const id = decoded.keyTupleData.columns[0].value!
+        expect(replica.delete(id), `delete of ${id}`).toBe(true)
+      }
+    }
+    replClient.close()
+
+    const upstream = await db.query<{ id: number; name: string; value: number }>(
+      'SELECT id, name, value FROM public.items'
+    )
+    expect(replica.size).toBeGreaterThan(50)
+    expect(
+      new Map(upstream.rows.map((r) => [`${r.id}`, `${r.id},${r.name},${r.value}`]))
+    ).toEqual(replica)
+  }, 20_000)
 })
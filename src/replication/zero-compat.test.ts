@@ -467,7 +467,8 @@ describe('zero-cache pgoutput compatibility', { timeout: 30000 }, () => {
     await db.exec(`CREATE PUBLICATION zero_pub FOR ALL TABLES`)
     await installChangeTracking(db)
 
-    const config = { ...getConfig(), pgPort: 0 }
+    // the test client sends a cleartext password
+    const config = { ...getConfig(), pgPort: 0, pgAuthMethod: 'password' as const }
     server = await startPgProxy(db, config)
     port = (server.address() as AddressInfo).port
   })
@@ -594,7 +595,7 @@ describe('zero-cache pgoutput compatibility', { timeout: 30000 }, () => {
     s.close()
   })
 
-  it('update includes old + new tuple (like zero-cache expects)', async () => {
+  it('update includes the old key only when it changed (like pgoutput)', async () => {
     const s = await stream()
     const q = s.messages
 
@@ -613,9 +614,20 @@ describe('zero-cache pgoutput compatibility', { timeout: 30000 }, () => {
     expect(upd.relation.name).toBe('foo')
     expect(upd.new.id).toBe('upd')
     expect(upd.new.int_val).toBe('20')
-    expect(upd.old).not.toBeNull()
-    expect(upd.old!.id).toBe('upd')
-    expect(upd.old!.int_val).toBe('10')
+    expect(upd.old).toBeNull()
+    expect(upd.key).toBeNull()
+
+    await db.exec(`UPDATE public.foo SET id = 'upd2' WHERE id = 'upd'`)
+
+    upd = null
+    while (!upd) {
+      const m = await nextData(q)
+      if (m.tag === 'update') upd = m as ZcUpdate
+    }
+
+    expect(upd.new.id).toBe('upd2')
+    expect(upd.old).toBeNull()
+    expect(upd.key).toMatchObject({ id: 'upd', int_val: null })
 
     s.close()
   })
@@ -636,7 +648,7 @@ describe('zero-cache pgoutput compatibility', { timeout: 30000 }, () => {
     }
 
     expect(del.relation.name).toBe('foo')
-    // our proxy sends 'K' key tuple with all column data
+    // 'K' key tuple: the primary key, other columns null
     expect(del.key).not.toBeNull()
     expect(del.key!.id).toBe('del')
 
@@ -20,10 +20,14 @@ import {
 import { join, dirname, extname } from 'node:path'
 
 import { log } from './log.js'
+import { DEFAULT_HOST, guardServer } from './network.js'
 
 export interface S3LocalConfig {
   port: number
   dataDir: string
+  // bind address and client allowlist, see network.ts
+  host?: string
+  allowedIps?: string[]
 }
 
 const MIME_TYPES: Record<string, string> = {
@@ -156,7 +160,8 @@ export function startS3Local(config: S3LocalConfig): Promise<Server> {
   })
 
   return new Promise((resolve, reject) => {
-    server.listen(config.port, '127.0.0.1', () => {
+    guardServer(server, config.allowedIps)
+    server.listen(config.port, config.host ?? DEFAULT_HOST, () => {
       log.s3(`listening on port ${config.port}`)
       resolve(server)
     })
@@ -0,0 +1,300 @@
+/**
+ * per-connection session state on a shared pglite session.
+ *
+ * every proxy connection to a database runs on the same pglite session, so a
+ * `SET search_path` or temp table from one client would otherwise leak to all
+ * of them. each connection keeps its own snapshot of session-level settings,
+ * and whenever a connection takes the instance lock the session is switched
+ * over to that connection's settings. when it gives the lock up, the session
+ * goes back to its original settings for oreZ's own work, which a client's
+ * `session_replication_role = replica` would otherwise keep from firing the
+ * change tracking triggers. temp objects are tracked per connection so they
+ * can be dropped when the connection goes away, or on its DISCARD ALL.
+ *
+ * connections of restricted users run as their own role, via SET SESSION
+ * AUTHORIZATION so their SET ROLE and RESET ROLE work like on postgres. like
+ * a SET ROLE, it only applies while the connection holds the session and is
+ * undone when it lets go, so oreZ's own queries always run as the superuser.
+ * while change history is kept, the connection holding the session is
+ * announced the same way, in orez.* settings the change log records.
+ */
+
+import type { PGlite } from '@electric-sql/pglite'
+
+// the connection whose writes the change log attributes them to
+export interface ChangeWriter {
+  connection: number
+  applicationName: string | null
+}
+
+export interface ConnectionSession {
+  id: number
+  // session-level settings as of the last capture, null = untouched baseline
+  settings: Map<string, string> | null
+  // oids of temp relations created by this connection
+  tempRelations: Set<number>
+  // session user (null = the superuser) and the role from its SET ROLE, if any
+  user: string | null
+  role: string | null
+  // the user it logged in as, what SET SESSION AUTHORIZATION DEFAULT goes back to
+  login: string | null
+}
+
+// session-wide resets the proxy limits to the connection running them
+export type SessionReset = 'DISCARD ALL' | 'DEALLOCATE ALL'
+
+// statements that change session-level settings
+const SETTING_CHANGE_PATTERNS = [
+  /(^|;)\s*(SET|RESET)\s/i,
+  /(^|;)\s*DISCARD\s/i,
+  /\bset_config\s*\(/i,
+]
+
+// statements that may create temp objects
+const TEMP_CREATE_PATTERNS = [
+  /\bCREATE\s+(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP|TEMPORARY)\s/i,
+  /\bINTO\s+(?:TEMP|TEMPORARY)\s/i,
+]
+
+// drop statement per pg_class relkind
+const DROP_KINDS: Record<string, string> = {
+  r: 'TABLE',
+  p: 'TABLE',
+  v: 'VIEW',
+  m: 'MATERIALIZED VIEW',
+  S: 'SEQUENCE',
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+export function createConnectionSession(id: number): ConnectionSession {
+  return {
+    id,
+    settings: null,
+    tempRelations: new Set(),
+    user: null,
+    role: null,
+    login: null,
+  }
+}
+
+/**
+ * recognize a DISCARD ALL or DEALLOCATE [PREPARE] ALL on its own. returns null
+ * for anything else, including a query with more statements after it.
+ */
+export function parseSessionReset(query: string): SessionReset | null {
+  const match = /^\s*(?:(DISCARD)|DEALLOCATE(?:\s+PREPARE)?)\s+ALL\s*;?\s*$/i.exec(query)
+  if (!match) return null
+  return match[1] ? 'DISCARD ALL' : 'DEALLOCATE ALL'
+}
+
+/**
+ * check which kinds of session state a query might change.
+ */
+export function detectSessionChanges(query: string): {
+  settings: boolean
+  temp: boolean
+} {
+  return {
+    settings: SETTING_CHANGE_PATTERNS.some((p) => p.test(query)),
+    temp: TEMP_CREATE_PATTERNS.some((p) => p.test(query)),
+  }
+}
+
+/**
+ * tracks whose settings are currently applied to one pglite session.
+ */
+export class SessionState {
+  private owner: number | null = null
+  private baseline: Map<string, string> | null = null
+  private applied = new Map<string, string>()
+  private superuser: string | null = null
+  private user: string | null = null
+  private role: string | null = null
+  // every temp relation we've attributed to a connection
+  private knownTemp = new Set<number>()
+  // writer announced to the change log, undefined = unknown
+  private writer: ChangeWriter | null | undefined = null
+
+  /**
+   * make the session look like `conn`'s. must be called with the instance lock held.
+   */
+  async activate(db: PGlite, conn: ConnectionSession): Promise<void> {
+    if (this.owner === conn.id) return
+    if (!this.baseline) {
+      this.baseline = await readSessionSettings(db)
+      this.applied = new Map(this.baseline)
+    }
+    await this.apply(db, conn.settings ?? this.baseline)
+    this.owner = conn.id
+  }
+
+  /**
+   * put the session back to its original settings and the superuser, for
+   * whoever takes the lock next. must be called with the instance lock held,
+   * outside of a transaction, before giving it up.
+   */
+  async deactivate(db: PGlite): Promise<void> {
+    // as the superuser, settings like session_replication_role can be reset
+    await this.setIdentity(db, null, null)
+    if (this.owner === null) return
+    if (this.baseline) await this.apply(db, this.baseline)
+    this.owner = null
+  }
+
+  private async apply(db: PGlite, desired: Map<string, string>): Promise<void> {
+    const statements: string[] = []
+    for (const [name, value] of desired) {
+      if (this.applied.get(name) !== value) {
+        statements.push(
+          `SELECT set_config(${quoteLiteral(name)}, ${quoteLiteral(value)}, false)`
+        )
+      }
+    }
+    for (const name of this.applied.keys()) {
+      if (!desired.has(name)) statements.push(`RESET ${quoteIdent(name)}`)
+    }
+
+    if (statements.length > 0) {
+      await db.exec(statements.join(';\n'))
+    }
+    this.applied = new Map(desired)
+  }
+
+  /**
+   * record the session state `conn` left behind. must be called with the
+   * instance lock held, while the connection is idle.
+   */
+  async capture(
+    db: PGlite,
+    conn: ConnectionSession,
+    changes: { settings: boolean; temp: boolean }
+  ): Promise<void> {
+    if (changes.settings) {
+      // a DISCARD ALL or RESET ALL may have cleared the writer too
+      if (this.writer) this.writer = undefined
+      conn.settings = await readSessionSettings(db)
+      this.applied = new Map(conn.settings)
+      this.owner = conn.id
+
+      const result = await db.query<{ user: string; role: string }>(
+        `SELECT session_user AS user, current_setting('role') AS role`
+      )
+      const { user, role } = result.rows[0]
+      this.user = conn.user = user === this.superuser ? null : user
+      this.role = conn.role = role === 'none' ? null : role
+    }
+
+    if (changes.temp) {
+      const result = await db.query<{ oid: number }>(
+        `SELECT oid::int AS oid FROM pg_class
+         WHERE relnamespace = pg_my_temp_schema()
+           AND relkind IN ('r', 'p', 'v', 'm', 'S')`
+      )
+      for (const row of result.rows) {
+        if (this.knownTemp.has(row.oid)) continue
+        this.knownTemp.add(row.oid)
+        conn.tempRelations.add(row.oid)
+      }
+    }
+  }
+
+  /**
+   * drop temp objects created by `conn` and forget it. must be called with the
+   * instance lock held.
+   */
+  async release(db: PGlite, conn: ConnectionSession): Promise<void> {
+    await this.deactivate(db)
+    if (conn.tempRelations.size === 0) return
+
+    // look up current names by oid, relations may have been renamed or dropped
+    const oids = [...conn.tempRelations]
+    const result = await db.query<{ oid: number; relname: string; relkind: string }>(
+      `SELECT oid::int AS oid, relname, relkind::text AS relkind
+       FROM pg_class
+       WHERE oid = ANY($1::oid[]) AND relnamespace = pg_my_temp_schema()`,
+      [oids]
+    )
+    for (const oid of oids) this.knownTemp.delete(oid)
+    conn.tempRelations.clear()
+
+    // dependent objects (e.g. serial sequences) go away with CASCADE
+    for (const row of result.rows) {
+      const kind = DROP_KINDS[row.relkind]
+      if (!kind) continue
+      await db.exec(`DROP ${kind} IF EXISTS pg_temp.${quoteIdent(row.relname)} CASCADE`)
+    }
+  }
+
+  /**
+   * DISCARD ALL for `conn` alone: drop its temp objects and put it back to
+   * the baseline settings, as the user it logged in as. must be called with
+   * the instance lock held, outside of a transaction.
+   */
+  async discard(db: PGlite, conn: ConnectionSession): Promise<void> {
+    await this.release(db, conn)
+    conn.settings = null
+    conn.user = conn.login
+    conn.role = null
+    await this.setIdentity(db, conn.user, null)
+    await this.activate(db, conn)
+  }
+
+  /**
+   * run as `user` and `role` (null = the superuser, no SET ROLE). must be
+   * called with the instance lock held, outside of a transaction, and with
+   * nulls before giving it up.
+   */
+  async setIdentity(db: PGlite, user: string | null, role: string | null): Promise<void> {
+    if (this.user !== user) {
+      if (!this.superuser) {
+        const result = await db.query<{ name: string }>('SELECT session_user AS name')
+        this.superuser = result.rows[0].name
+      }
+      // also resets the role
+      await db.exec(`SET SESSION AUTHORIZATION ${quoteIdent(user ?? this.superuser)}`)
+      this.user = user
+      this.role = null
+    }
+    if (this.role !== role) {
+      await db.exec(role ? `SET ROLE ${quoteIdent(role)}` : 'RESET ROLE')
+      this.role = role
+    }
+  }
+
+  /**
+   * announce the writer that changes written from now on are recorded with
+   * (null = none). must be called with the instance lock held, and with null
+   * before giving it up.
+   */
+  async setWriter(db: PGlite, writer: ChangeWriter | null): Promise<void> {
+    if (
+      this.writer !== undefined &&
+      this.writer?.connection === writer?.connection &&
+      this.writer?.applicationName === writer?.applicationName
+    ) {
+      return
+    }
+    await db.query(
+      `SELECT set_config('orez.connection_id', $1, false),
+              set_config('orez.application_name', $2, false)`,
+      [writer ? String(writer.connection) : '', writer?.applicationName ?? '']
+    )
+    this.writer = writer
+  }
+}
+
+async function readSessionSettings(db: PGlite): Promise<Map<string, string>> {
+  const result = await db.query<{ name: string; setting: string }>(
+    // orez.* announce the writer, see setWriter
+    `SELECT name, setting FROM pg_settings
+     WHERE source = 'session' AND name NOT LIKE 'orez.%'`
+  )
+  return new Map(result.rows.map((r) => [r.name, r.setting]))
+}
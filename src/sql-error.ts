@@ -0,0 +1,12 @@
+/**
+ * an error with a postgres SQLSTATE code, for failures the proxy reports to
+ * clients itself rather than pglite (lock deadlocks, canceled statements).
+ */
+export class SqlError extends Error {
+  constructor(
+    readonly code: string,
+    message: string
+  ) {
+    super(message)
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * certificate and key for the pg proxy's TLS mode.
+ *
+ * uses the user's cert/key files if configured, otherwise a self-signed
+ * certificate for localhost that's generated on first use and kept in the
+ * data dir. node can't create certificates itself, so the X.509 structure is
+ * DER-encoded by hand: an ECDSA P-256 key, signed with itself.
+ */
+
+import {
+  X509Certificate,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  type KeyObject,
+} from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+import { log } from './log.js'
+
+import type { ZeroLiteConfig } from './config.js'
+
+export interface TlsCredentials {
+  cert: string
+  key: string
+}
+
+const CERT_FILE = 'tls-cert.pem'
+const KEY_FILE = 'tls-key.pem'
+const VALID_DAYS = 3650
+// AlgorithmIdentifier for ecdsa-with-SHA256
+const ECDSA_SHA256 = sequence(oid('1.2.840.10045.4.3.2'))
+
+/**
+ * load the proxy's TLS credentials, generating the dev certificate if there
+ * is none yet (or it expired).
+ */
+export function loadTlsCredentials(config: ZeroLiteConfig): TlsCredentials {
+  if (config.pgTlsCert || config.pgTlsKey) {
+    if (!config.pgTlsCert || !config.pgTlsKey) {
+      throw new Error('pgTlsCert and pgTlsKey must be set together')
+    }
+    return {
+      cert: readFileSync(config.pgTlsCert, 'utf-8'),
+      key: readFileSync(config.pgTlsKey, 'utf-8'),
+    }
+  }
+
+  const certPath = resolve(config.dataDir, CERT_FILE)
+  const keyPath = resolve(config.dataDir, KEY_FILE)
+  if (existsSync(certPath) && existsSync(keyPath)) {
+    const credentials = {
+      cert: readFileSync(certPath, 'utf-8'),
+      key: readFileSync(keyPath, 'utf-8'),
+    }
+    try {
+      if (new Date(new X509Certificate(credentials.cert).validTo) > new Date()) {
+        return credentials
+      }
+    } catch {
+      // unreadable, replace it below
+    }
+  }
+
+  const credentials = generateSelfSignedCert()
+  mkdirSync(config.dataDir, { recursive: true })
+  writeFileSync(keyPath, credentials.key, { mode: 0o600 })
+  writeFileSync(certPath, credentials.cert)
+  log.debug.proxy(`generated tls certificate ${certPath}`)
+  return credentials
+}
+
+/**
+ * create a self-signed certificate for localhost, 127.0.0.1 and ::1.
+ */
+export function generateSelfSignedCert(): TlsCredentials {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+  })
+  const name = sequence(set(sequence(oid('2.5.4.3'), utf8('orez dev'))))
+  const notBefore = new Date(Date.now() - 86_400_000)
+  const notAfter = new Date(notBefore.getTime() + VALID_DAYS * 86_400_000)
+  // serial numbers are positive, so clear the top bit
+  const serial = randomBytes(16)
+  serial[0] &= 0x7f
+
+  const tbs = sequence(
+    der(0xa0, integer(Buffer.from([2]))), // v3
+    integer(serial),
+    ECDSA_SHA256,
+    name,
+    sequence(time(notBefore), time(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    der(
+      0xa3,
+      sequence(
+        // basicConstraints: CA, so clients can trust it directly as a root
+        sequence(
+          oid('2.5.29.19'),
+          der(0x01, Buffer.from([0xff])),
+          octets(sequence(der(0x01, Buffer.from([0xff]))))
+        ),
+        // subjectAltName
+        sequence(
+          oid('2.5.29.17'),
+          octets(
+            sequence(
+              der(0x82, Buffer.from('localhost')),
+              der(0x87, Buffer.from([127, 0, 0, 1])),
+              der(0x87, Buffer.from([...Array(15).fill(0), 1]))
+            )
+          )
+        )
+      )
+    )
+  )
+  const signature = sign('sha256', tbs, privateKey)
+  const cert = sequence(tbs, ECDSA_SHA256, der(0x03, Buffer.from([0]), signature))
+
+  return { cert: toPem('CERTIFICATE', cert), key: exportKey(privateKey) }
+}
+
+function exportKey(key: KeyObject): string {
+  return key.export({ type: 'pkcs8', format: 'pem' }).toString()
+}
+
+function toPem(label: string, data: Buffer): string {
+  const lines = data.toString('base64').match(/.{1,64}/g) ?? []
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`
+}
+
+// --- minimal DER encoding ---
+
+function der(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content)
+  let length: Buffer
+  if (body.length < 0x80) {
+    length = Buffer.from([body.length])
+  } else {
+    const bytes: number[] = []
+    for (let n = body.length; n > 0; n >>= 8) bytes.unshift(n & 0xff)
+    length = Buffer.from([0x80 | bytes.length, ...bytes])
+  }
+  return Buffer.concat([Buffer.from([tag]), length, body])
+}
+
+function sequence(...content: Buffer[]): Buffer {
+  return der(0x30, ...content)
+}
+
+function set(...content: Buffer[]): Buffer {
+  return der(0x31, ...content)
+}
+
+function integer(value: Buffer): Buffer {
+  return der(0x02, value)
+}
+
+function octets(content: Buffer): Buffer {
+  return der(0x04, content)
+}
+
+function utf8(value: string): Buffer {
+  return der(0x0c, Buffer.from(value))
+}
+
+function oid(value: string): Buffer {
+  const [first, second, ...rest] = value.split('.').map(Number)
+  const bytes = [first * 40 + second]
+  for (const n of rest) {
+    const chunk = [n & 0x7f]
+    for (let v = n >> 7; v > 0; v >>= 7) chunk.unshift((v & 0x7f) | 0x80)
+    bytes.push(...chunk)
+  }
+  return der(0x06, Buffer.from(bytes))
+}
+
+// UTCTime until 2049, GeneralizedTime after, as X.509 requires
+function time(date: Date): Buffer {
+  const digits = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z'
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(digits.slice(2)))
+    : der(0x18, Buffer.from(digits))
+}
@@ -30,6 +30,8 @@ export function orezPlugin(options?: OrezPluginOptions): Plugin {
         s3Server = await startS3Local({
           port: options.s3Port || 9200,
           dataDir: result.config.dataDir,
+          host: result.config.host,
+          allowedIps: result.config.allowedIps,
         })
       }
 